@@ -0,0 +1,487 @@
+import fs from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+    findPageRoutes,
+    getGetActions,
+    readActionKeys,
+    readModuleActionKeys,
+    readModuleSchemaKeys,
+    readSchemaKeys,
+    validateActionKeys,
+    validateSchemaKeys,
+} from '../src/lib/action-keys'
+
+describe('action keys', () => {
+    describe('readActionKeys', () => {
+        it('should read the keys of the honoActions object literal', () => {
+            const source = `import { defineHonoAction } from '@gnosticdev/hono-actions/actions'
+
+const helper = { ignored: true }
+
+export const honoActions = {
+    // a comment with a key: value
+    hello: defineHonoAction({ handler: async () => ({ a: { b: 1 }, c: [1, 2] }) }),
+    'quoted-key': quoted,
+    shorthand,
+    billing: {
+        createInvoice,
+        refund: defineHonoAction({ handler: async () => \`\${'}'}\` }),
+    },
+    ...others,
+    [computed]: action,
+}`
+
+            expect(readActionKeys(source, 'src/hono.ts')).toEqual([
+                {
+                    route: ['hello'],
+                    location: 'src/hono.ts:7:5',
+                    group: false,
+                    method: 'POST',
+                },
+                {
+                    route: ['quoted-key'],
+                    location: 'src/hono.ts:8:5',
+                    group: false,
+                },
+                {
+                    route: ['shorthand'],
+                    location: 'src/hono.ts:9:5',
+                    group: false,
+                },
+                {
+                    route: ['billing'],
+                    location: 'src/hono.ts:10:5',
+                    group: true,
+                },
+                {
+                    route: ['billing', 'createInvoice'],
+                    location: 'src/hono.ts:11:9',
+                    group: false,
+                },
+                {
+                    route: ['billing', 'refund'],
+                    location: 'src/hono.ts:12:9',
+                    group: false,
+                    method: 'POST',
+                },
+            ])
+        })
+
+        it('should skip regular expressions in the values', () => {
+            const source = `export const honoActions = {
+    slug: defineHonoAction({ schema: z.string().regex(/^[a-z'{]+$/) }),
+    'bad key': defineHonoAction({ schema: z.string().regex(/[}\\/"]/g) }),
+    ratio: defineHonoAction({ handler: async () => 1 / 2 / 3 }),
+}`
+
+            expect(
+                readActionKeys(source, 'src/hono.ts')?.map((key) => key.route),
+            ).toEqual([['slug'], ['bad key'], ['ratio']])
+        })
+
+        it('should read groups declared in the same file', () => {
+            const source = `const billingActions = {
+    createInvoice,
+    'bad key': refund,
+}
+
+export const honoActions = {
+    billing: billingActions,
+    billingActions,
+    imported: importedActions,
+}`
+
+            expect(readActionKeys(source, 'src/hono.ts')).toEqual([
+                {
+                    route: ['billing'],
+                    location: 'src/hono.ts:7:5',
+                    group: true,
+                },
+                {
+                    route: ['billing', 'createInvoice'],
+                    location: 'src/hono.ts:2:5',
+                    group: false,
+                },
+                {
+                    route: ['billing', 'bad key'],
+                    location: 'src/hono.ts:3:5',
+                    group: false,
+                },
+                {
+                    route: ['billingActions'],
+                    location: 'src/hono.ts:8:5',
+                    group: true,
+                },
+                {
+                    route: ['billingActions', 'createInvoice'],
+                    location: 'src/hono.ts:2:5',
+                    group: false,
+                },
+                {
+                    route: ['billingActions', 'bad key'],
+                    location: 'src/hono.ts:3:5',
+                    group: false,
+                },
+                {
+                    route: ['imported'],
+                    location: 'src/hono.ts:9:5',
+                    group: false,
+                },
+            ])
+        })
+
+        it('should read the method of the actions declared in the file', () => {
+            const source = `import { imported } from './imported'
+
+export const search = defineHonoAction({
+    handler: async () => fetch(url, { method: 'POST' }),
+    method: 'GET',
+})
+
+export const honoActions = {
+    search,
+    feed: defineHonoStreamAction({ method: "GET", handler }),
+    create: defineHonoAction({
+        handler: async () => fetch(url, { method: 'GET' }),
+    }),
+    imported,
+}`
+
+            expect(
+                getGetActions(readActionKeys(source, 'src/hono.ts') ?? []),
+            ).toEqual(['search', 'feed'])
+            expect(
+                readActionKeys(source, 'src/hono.ts')?.map((key) => key.method),
+            ).toEqual(['GET', 'GET', 'POST', undefined])
+        })
+
+        it('should read the method of typed actions and Hono apps', () => {
+            const source = `const METHOD = 'GET'
+const app = new Hono<HonoEnv>()
+app.use('*', logger())
+const getRoute = app.get('/', (c) => c.json(c.req.header('x')))
+
+export const honoActions = {
+    typed: defineHonoAction<{ Bindings: Env }>({ method: 'GET', handler }),
+    constant: defineHonoAction({ method: METHOD, handler }),
+    computed: defineHonoAction({ method: getMethod(), handler }),
+    spread: defineHonoAction({ ...options, handler }),
+    getRoute,
+    chained: new Hono().use(logger()).post('/', handler),
+    any: new Hono().all('/', handler),
+}`
+
+            expect(
+                readActionKeys(source, 'src/hono.ts')?.map((key) => key.method),
+            ).toEqual([
+                'GET',
+                'GET',
+                undefined,
+                undefined,
+                'GET',
+                'POST',
+                undefined,
+            ])
+        })
+
+        it('should return undefined when honoActions is not an object literal', () => {
+            expect(
+                readActionKeys(
+                    'export const honoActions = createActions()',
+                    'src/hono.ts',
+                ),
+            ).toBeUndefined()
+            expect(readActionKeys('export {}', 'src/hono.ts')).toBeUndefined()
+        })
+    })
+
+    describe('readModuleActionKeys', () => {
+        it('should read the keys of the loaded actions', () => {
+            const action = { fetch: () => new Response(), routes: [] }
+            const getAction = {
+                fetch: () => new Response(),
+                routes: [
+                    { method: 'ALL', path: '/' },
+                    { method: 'GET', path: '/' },
+                ],
+            }
+
+            expect(
+                readModuleActionKeys(
+                    { hello: getAction, billing: { 'bad key': action } },
+                    'src/hono.ts',
+                ),
+            ).toEqual([
+                {
+                    route: ['hello'],
+                    location: 'src/hono.ts (honoActions.hello)',
+                    group: false,
+                    method: 'GET',
+                },
+                {
+                    route: ['billing'],
+                    location: 'src/hono.ts (honoActions.billing)',
+                    group: true,
+                },
+                {
+                    route: ['billing', 'bad key'],
+                    location: 'src/hono.ts (honoActions.billing.bad key)',
+                    group: false,
+                    method: 'POST',
+                },
+            ])
+        })
+    })
+
+    describe('schema keys', () => {
+        it('should read the schemas exported by the schemas module', () => {
+            const source = `import { z } from 'astro/zod'
+const email = z.string().email()
+export const signup = z.object({ email })
+export const billing = {
+    createInvoice: z.object({ amount: z.number() }),
+}`
+
+            expect(readSchemaKeys(source, 'src/schemas.ts')).toEqual([
+                {
+                    route: ['signup'],
+                    location: 'src/schemas.ts:3:14',
+                    group: false,
+                },
+                {
+                    route: ['billing'],
+                    location: 'src/schemas.ts:4:14',
+                    group: true,
+                },
+                {
+                    route: ['billing', 'createInvoice'],
+                    location: 'src/schemas.ts:5:5',
+                    group: false,
+                },
+            ])
+            expect(
+                readSchemaKeys("export * from './billing'", 'src/schemas.ts'),
+            ).toBeUndefined()
+        })
+
+        it('should read the schemas of the loaded schemas module', () => {
+            const schema = { '~standard': { version: 1 } }
+
+            expect(
+                readModuleSchemaKeys(
+                    {
+                        signup: schema,
+                        billing: { createInvoice: schema },
+                        MAX: 3,
+                    },
+                    'src/schemas.ts',
+                ),
+            ).toEqual([
+                {
+                    route: ['signup'],
+                    location: 'src/schemas.ts (signup)',
+                    group: false,
+                },
+                {
+                    route: ['billing'],
+                    location: 'src/schemas.ts (billing)',
+                    group: true,
+                },
+                {
+                    route: ['billing', 'createInvoice'],
+                    location: 'src/schemas.ts (billing.createInvoice)',
+                    group: false,
+                },
+            ])
+        })
+
+        it('should report schemas without an action and actions without a schema', () => {
+            const actionKeys = [
+                {
+                    route: ['signup'],
+                    location: 'src/hono.ts:2:5',
+                    method: 'POST' as const,
+                },
+                {
+                    route: ['search'],
+                    location: 'src/hono.ts:3:5',
+                    method: 'GET' as const,
+                },
+                {
+                    route: ['billing'],
+                    location: 'src/hono.ts:4:5',
+                    group: true,
+                },
+                {
+                    route: ['billing', 'createInvoice'],
+                    location: 'src/hono.ts:5:9',
+                    method: 'POST' as const,
+                },
+                // imported, may be a group
+                { route: ['orders'], location: 'src/hono.ts:7:5' },
+            ]
+            const schemaKeys = [
+                { route: ['signup'], location: 'src/schemas.ts:1:14' },
+                { route: ['singup'], location: 'src/schemas.ts:2:14' },
+                {
+                    route: ['billing'],
+                    location: 'src/schemas.ts:3:14',
+                    group: true,
+                },
+                {
+                    route: ['billing', 'createInvoice'],
+                    location: 'src/schemas.ts:4:5',
+                },
+                { route: ['orders', 'list'], location: 'src/schemas.ts:6:5' },
+            ]
+
+            expect(
+                validateSchemaKeys(actionKeys, schemaKeys, {
+                    requireSchemas: false,
+                }),
+            ).toEqual([
+                'src/schemas.ts:2:14 singup matches no action, check its name',
+            ])
+            expect(
+                validateSchemaKeys(actionKeys, schemaKeys, {
+                    requireSchemas: true,
+                }),
+            ).toEqual([
+                'src/schemas.ts:2:14 singup matches no action, check its name',
+                'src/hono.ts:3:5 search has no schema, its input is not validated before sending',
+            ])
+        })
+    })
+
+    describe('validateActionKeys', () => {
+        it('should accept valid keys', () => {
+            const diagnostics = validateActionKeys(
+                [
+                    { route: ['hello'], location: 'src/hono.ts:2:5' },
+                    {
+                        route: ['billing'],
+                        location: 'src/hono.ts:3:5',
+                        group: true,
+                    },
+                    {
+                        route: ['billing', 'create-invoice'],
+                        location: 'src/hono.ts:4:9',
+                    },
+                ],
+                { basePath: '/api', pages: [], pagesDir: 'src/pages' },
+            )
+
+            expect(diagnostics).toEqual([])
+        })
+
+        it('should reject keys that are not URL-safe', () => {
+            const diagnostics = validateActionKeys(
+                [
+                    { route: ['my action'], location: 'src/hono.ts:2:5' },
+                    { route: ['billing/refund'], location: 'src/hono.ts:3:5' },
+                    { route: ['..'], location: 'src/hono.ts:4:5' },
+                ],
+                { basePath: '/api', pages: [], pagesDir: 'src/pages' },
+            )
+
+            expect(diagnostics).toEqual([
+                'src/hono.ts:2:5 "my action" is not URL-safe, use letters, numbers, "-", "_", "." or "~"',
+                'src/hono.ts:3:5 "billing/refund" is not URL-safe, use letters, numbers, "-", "_", "." or "~"',
+                'src/hono.ts:4:5 ".." is not URL-safe, use letters, numbers, "-", "_", "." or "~"',
+            ])
+        })
+
+        it('should reject keys with the same route', () => {
+            const diagnostics = validateActionKeys(
+                [
+                    { route: ['hello'], location: 'src/hono.ts:2:5' },
+                    { route: ['Hello'], location: 'src/hono.ts:3:5' },
+                    { route: ['hello'], location: 'src/hono.ts:4:5' },
+                ],
+                { basePath: '/api', pages: [], pagesDir: 'src/pages' },
+            )
+
+            expect(diagnostics).toEqual([
+                'src/hono.ts:3:5 /api/Hello has the same route as src/hono.ts:2:5',
+                'src/hono.ts:4:5 /api/hello has the same route as src/hono.ts:2:5',
+            ])
+        })
+
+        it('should reject routes handled by a page of the pages directory', () => {
+            const diagnostics = validateActionKeys(
+                [
+                    { route: ['hello'], location: 'src/hono.ts:2:5' },
+                    {
+                        route: ['users', 'create'],
+                        location: 'src/hono.ts:3:5',
+                    },
+                    {
+                        route: ['posts', 'create', 'draft'],
+                        location: 'src/hono.ts:4:5',
+                    },
+                ],
+                {
+                    basePath: '/api',
+                    pages: [
+                        { route: ['api', 'hello'], file: 'api/hello.ts' },
+                        {
+                            route: ['api', 'users', '[id]'],
+                            file: 'api/users/[id].ts',
+                        },
+                        {
+                            route: ['api', 'posts', '[...slug]'],
+                            file: 'api/posts/[...slug].ts',
+                        },
+                        { route: ['hello'], file: 'hello.astro' },
+                    ],
+                    // `srcDir: './app'`
+                    pagesDir: 'app/pages',
+                },
+            )
+
+            expect(diagnostics).toEqual([
+                'src/hono.ts:2:5 /api/hello collides with the page app/pages/api/hello.ts',
+                'src/hono.ts:3:5 /api/users/create collides with the page app/pages/api/users/[id].ts',
+            ])
+        })
+    })
+
+    describe('findPageRoutes', () => {
+        let dir: string
+
+        beforeEach(async () => {
+            dir = await fs.mkdtemp(path.join(tmpdir(), 'hono-actions-pages-'))
+            const files = [
+                'index.astro',
+                'about.md',
+                'api/index.ts',
+                'api/users/[id].ts',
+                '_components/Card.astro',
+                'styles.css',
+            ]
+            for (const file of files) {
+                await fs.mkdir(path.dirname(path.join(dir, file)), {
+                    recursive: true,
+                })
+                await fs.writeFile(path.join(dir, file), '', 'utf-8')
+            }
+        })
+
+        afterEach(async () => {
+            await fs.rm(dir, { recursive: true, force: true })
+        })
+
+        it('should return the routes of the pages', async () => {
+            const pages = await findPageRoutes(dir)
+
+            expect(pages.sort((a, b) => a.file.localeCompare(b.file))).toEqual([
+                { route: ['about'], file: 'about.md' },
+                { route: ['api'], file: 'api/index.ts' },
+                { route: ['api', 'users', '[id]'], file: 'api/users/[id].ts' },
+                { route: [], file: 'index.astro' },
+            ])
+        })
+    })
+})
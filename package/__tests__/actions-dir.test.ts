@@ -0,0 +1,146 @@
+import fs from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+    findActionFiles,
+    getActionDirKeys,
+    getActionRoute,
+    isActionFile,
+    readActionFileMethods,
+} from '../src/lib/actions-dir'
+
+describe('actions directory', () => {
+    describe('isActionFile', () => {
+        it.each([
+            'hello.ts',
+            'hello.js',
+            'hello.mts',
+            'billing/createInvoice.ts',
+        ])('should accept %s', (file) => {
+            expect(isActionFile(file)).toBe(true)
+        })
+
+        it.each([
+            '_utils.ts',
+            '_shared/db.ts',
+            'billing/_helpers.ts',
+            'env.d.ts',
+            'hello.test.ts',
+            'hello.spec.js',
+            'README.md',
+            'hello.tsx',
+        ])('should skip %s', (file) => {
+            expect(isActionFile(file)).toBe(false)
+        })
+    })
+
+    describe('getActionRoute', () => {
+        it('should split the path without the extension', () => {
+            expect(getActionRoute('hello.ts')).toEqual(['hello'])
+            expect(getActionRoute('billing/createInvoice.mts')).toEqual([
+                'billing',
+                'createInvoice',
+            ])
+        })
+    })
+
+    describe('getActionDirKeys', () => {
+        it('should return the folders as groups', () => {
+            expect(
+                getActionDirKeys(
+                    ['billing/refunds/issue.ts', 'hello.ts'],
+                    'src/endpoints',
+                ),
+            ).toEqual([
+                {
+                    route: ['billing'],
+                    location: 'src/endpoints/billing',
+                    group: true,
+                },
+                {
+                    route: ['billing', 'refunds'],
+                    location: 'src/endpoints/billing/refunds',
+                    group: true,
+                },
+                {
+                    route: ['billing', 'refunds', 'issue'],
+                    location: 'src/endpoints/billing/refunds/issue.ts',
+                },
+                { route: ['hello'], location: 'src/endpoints/hello.ts' },
+            ])
+        })
+    })
+
+    describe('findActionFiles', () => {
+        let dir: string
+
+        beforeEach(async () => {
+            dir = await fs.mkdtemp(path.join(tmpdir(), 'hono-actions-dir-'))
+            const files = [
+                'hello.ts',
+                'billing/createInvoice.ts',
+                'billing/_helpers.ts',
+                '_shared/db.ts',
+                'hello.test.ts',
+            ]
+            for (const file of files) {
+                await fs.mkdir(path.dirname(path.join(dir, file)), {
+                    recursive: true,
+                })
+                await fs.writeFile(path.join(dir, file), '', 'utf-8')
+            }
+        })
+
+        afterEach(async () => {
+            await fs.rm(dir, { recursive: true, force: true })
+        })
+
+        it('should find the action files sorted by path', async () => {
+            expect(await findActionFiles(dir)).toEqual([
+                'billing/createInvoice.ts',
+                'hello.ts',
+            ])
+        })
+
+        it('should return no files for a missing directory', async () => {
+            expect(await findActionFiles(path.join(dir, 'missing'))).toEqual([])
+        })
+
+        it('should read the method of the default export of each file', async () => {
+            await fs.writeFile(
+                path.join(dir, 'hello.ts'),
+                "export default defineHonoAction({ method: 'GET', handler })",
+                'utf-8',
+            )
+            await fs.writeFile(
+                path.join(dir, 'billing/createInvoice.ts'),
+                'const createInvoice = defineHonoAction({ handler })\nexport default createInvoice\n',
+                'utf-8',
+            )
+
+            expect(
+                await readActionFileMethods(dir, [
+                    'billing/createInvoice.ts',
+                    'hello.ts',
+                    '_shared/db.ts',
+                ]),
+            ).toEqual({
+                'billing/createInvoice.ts': 'POST',
+                'hello.ts': 'GET',
+                '_shared/db.ts': undefined,
+            })
+            expect(
+                getActionDirKeys(['hello.ts'], 'src/endpoints', {
+                    'hello.ts': 'GET',
+                }),
+            ).toEqual([
+                {
+                    route: ['hello'],
+                    location: 'src/endpoints/hello.ts',
+                    method: 'GET',
+                },
+            ])
+        })
+    })
+})
@@ -1,14 +1,36 @@
 import { z } from 'astro/zod'
-import { beforeEach, describe, expect, it, vi } from 'vitest'
+import * as devalue from 'devalue'
+import * as v from 'valibot'
+import {
+    beforeEach,
+    describe,
+    expect,
+    expectTypeOf,
+    it,
+    type MockInstance,
+    vi,
+} from 'vitest'
 import { Hono } from 'hono'
+import { setCookie } from 'hono/cookie'
 import { showRoutes } from 'hono/dev'
-import { createFactory } from 'hono/factory'
+import { createFactory, createMiddleware } from 'hono/factory'
 import { logger } from 'hono/logger'
 import { prettyJSON } from 'hono/pretty-json'
 import { testClient } from 'hono/testing'
 import type { Bindings, Schema } from 'hono/types'
-import { defineHonoAction } from '../src/actions'
-import { HonoActionError } from '../src/error'
+import {
+    astroContext,
+    createActionsProxy,
+    defineHonoAction,
+    defineHonoStreamAction,
+    FORM_ACTION_PARAM,
+    fileSchema,
+    formActions,
+    getFormActionResult,
+    readActionStream,
+    SERIALIZATION_HEADER,
+} from '../src/actions'
+import { type ActionValidationError, HonoActionError } from '../src/error'
 
 interface HonoEnv {
     Bindings: {
@@ -26,6 +48,13 @@ interface HonoEnv {
 
 const appFactory = createFactory<HonoEnv>()
 
+// failing actions log their errors, keep the test output readable
+let consoleErrorSpy: MockInstance<typeof console.error>
+beforeEach(() => {
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    return () => consoleErrorSpy.mockRestore()
+})
+
 interface ActionResponse<T> {
     data: T | null
     error: { code: string; message: string } | null
@@ -148,106 +177,1684 @@ describe('Hono Actions', () => {
             expect(json.error).not.toBeNull()
             expect(json.error?.code).toBe('UNKNOWN_ERROR')
         })
+
+        it.each([
+            ['UNAUTHORIZED', 401],
+            ['FORBIDDEN', 403],
+            ['NOT_FOUND', 404],
+            ['SESSION_NOT_FOUND', 401],
+            ['CONFLICT', 409],
+            ['RATE_LIMITED', 429],
+            ['PAYLOAD_TOO_LARGE', 413],
+        ] as const)(
+            'should respond to %s with status %i',
+            async (code, status) => {
+                const testAction = defineHonoAction({
+                    handler: async () => {
+                        throw new HonoActionError({ message: 'Failed', code })
+                    },
+                })
+
+                app.route('/error', testAction)
+
+                const res = await app.request('/api/error', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({}),
+                })
+
+                expect(res.status).toBe(status)
+                const json = (await res.json()) as ActionResponse<unknown>
+                expect(json.error?.code).toBe(code)
+            },
+        )
+
+        it('should respond with the status set on the error', async () => {
+            const testAction = defineHonoAction({
+                handler: async () => {
+                    throw new HonoActionError({
+                        message: 'Gone',
+                        code: 'NOT_FOUND',
+                        status: 410,
+                    })
+                },
+            })
+
+            app.route('/error', testAction)
+
+            const res = await app.request('/api/error', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({}),
+            })
+
+            expect(res.status).toBe(410)
+        })
     })
 })
 
-// Test the action routes integration
-describe('Action Routes', () => {
-    it('should properly integrate multiple actions', async () => {
-        const schema1 = z.object({ field: z.string() })
-        const schema2 = z.object({ number: z.number() })
+// Test form data input
+describe('Form Input', () => {
+    const schema = z.object({
+        name: z.string(),
+        age: z.number(),
+        tags: z.array(z.string()),
+        address: z.object({ city: z.string() }),
+    })
 
-        const actions = {
-            action1: defineHonoAction({
-                schema: schema1,
+    it('should accept urlencoded bodies in form mode', async () => {
+        const app = new Hono().route(
+            '/form',
+            defineHonoAction({
+                schema,
+                input: 'form',
                 handler: async (input) => input,
             }),
-            action2: defineHonoAction({
-                schema: schema2,
+        )
+
+        const res = await app.request('/form', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: 'name=John&age=30&tags=a&tags=b&address.city=Berlin',
+        })
+
+        expect(res.status).toBe(200)
+        expect(await res.json()).toEqual({
+            data: {
+                name: 'John',
+                age: 30,
+                tags: ['a', 'b'],
+                address: { city: 'Berlin' },
+            },
+            error: null,
+        })
+    })
+
+    it('should ignore field names that reach the prototype', async () => {
+        const app = new Hono().route(
+            '/form',
+            defineHonoAction({
+                schema,
+                input: 'form',
                 handler: async (input) => input,
             }),
-        }
+        )
 
-        const app = new Hono<HonoEnv, Schema>().basePath('/api/_actions')
+        const res = await app.request('/form', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: 'name=John&age=30&tags=a&address.city=Berlin&__proto__.isAdmin=true&address.constructor.prototype.isAdmin=true',
+        })
 
-        app.route('/action1', actions.action1)
-        app.route('/action2', actions.action2)
+        expect(res.status).toBe(200)
+        expect(({} as Record<string, unknown>).isAdmin).toBeUndefined()
+        expect((await res.json()).data).toEqual({
+            name: 'John',
+            age: 30,
+            tags: ['a'],
+            address: { city: 'Berlin' },
+        })
+    })
 
-        // Test first action
-        const res1 = await app.request('/api/_actions/action1', {
+    it('should accept multipart bodies in form mode', async () => {
+        const app = new Hono().route(
+            '/form',
+            defineHonoAction({
+                schema,
+                input: 'form',
+                handler: async (input) => input,
+            }),
+        )
+
+        const body = new FormData()
+        body.append('name', 'John')
+        body.append('age', '30')
+        body.append('tags', 'a')
+        body.append('address.city', 'Berlin')
+
+        const res = await app.request('/form', { method: 'POST', body })
+
+        expect(res.status).toBe(200)
+        const json = await res.json()
+        expect(json.data).toEqual({
+            name: 'John',
+            age: 30,
+            tags: ['a'],
+            address: { city: 'Berlin' },
+        })
+    })
+
+    it('should return a validation error for invalid form fields', async () => {
+        const app = new Hono().route(
+            '/form',
+            defineHonoAction({
+                schema,
+                input: 'form',
+                handler: async (input) => input,
+            }),
+        )
+
+        const res = await app.request('/form', {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ field: 'test' }),
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: 'name=John&age=abc&tags=a&address.city=Berlin',
         })
-        expect(res1.status).toBe(200)
 
-        // Test second action
-        const res2 = await app.request('/api/_actions/action2', {
+        expect(res.status).toBe(400)
+        const json = (await res.json()) as ActionResponse<unknown>
+        expect(json.error?.code).toBe('INPUT_VALIDATION_ERROR')
+    })
+
+    it('should accept json and form bodies in auto mode', async () => {
+        const app = new Hono().route(
+            '/auto',
+            defineHonoAction({
+                schema,
+                input: 'auto',
+                handler: async (input) => input,
+            }),
+        )
+        const expected = {
+            name: 'John',
+            age: 30,
+            tags: ['a'],
+            address: { city: 'Berlin' },
+        }
+
+        const jsonRes = await app.request('/auto', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ number: 42 }),
+            body: JSON.stringify(expected),
         })
-        expect(res2.status).toBe(200)
+        expect((await jsonRes.json()).data).toEqual(expected)
+
+        const formRes = await app.request('/auto', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: 'name=John&age=30&tags=a&address.city=Berlin',
+        })
+        expect((await formRes.json()).data).toEqual(expected)
+    })
+
+    it('should type the client form input', async () => {
+        const app = new Hono().route(
+            '/form',
+            defineHonoAction({
+                schema,
+                input: 'form',
+                handler: async (input) => input,
+            }),
+        )
+        const client = testClient(app)
+
+        const res = await client.form.$post({
+            form: {
+                name: 'John',
+                age: '30',
+                tags: ['a', 'b'],
+                'address.city': 'Berlin',
+            },
+        })
+
+        expect(res.status).toBe(200)
+        const json = await res.json()
+        expect(json.data?.age).toBe(30)
+        expect(json.data?.address.city).toBe('Berlin')
     })
 })
 
-// Test environment bindings
-describe('Environment Bindings', () => {
-    it('should handle environment variables correctly', async () => {
-        const mockEnv = {
-            SOME_API_KEY: 'test-key',
-            ASTRO_LOCALS: {
-                kv: {
-                    getItem: vi.fn().mockResolvedValue({ some: 'data' }),
-                    setItem: vi.fn().mockResolvedValue(undefined),
-                },
-                sessionId: 'test-session',
+// Test file uploads
+describe('File Uploads', () => {
+    const uploadAction = defineHonoAction({
+        input: 'form',
+        schema: z.object({
+            title: z.string(),
+            avatar: fileSchema({ maxSize: 1024, accept: 'image/*' }),
+            attachment: fileSchema().optional(),
+        }),
+        handler: async ({ title, avatar, attachment }) => ({
+            title,
+            name: avatar.name,
+            size: avatar.size,
+            hasAttachment: attachment !== undefined,
+        }),
+    })
+    const app = new Hono().route('/upload', uploadAction)
+    const client = testClient(app)
+
+    it('should accept a valid upload from the client', async () => {
+        const res = await client.upload.$post({
+            form: {
+                title: 'Me',
+                avatar: new File(['png'], 'me.png', { type: 'image/png' }),
             },
-        }
-        type MockBindings = typeof mockEnv
+        })
 
-        interface MockEnv {
-            Bindings: MockBindings
-            Variables: Record<string, unknown>
-        }
+        expect(res.status).toBe(200)
+        const json = await res.json()
+        expect(json.data).toEqual({
+            title: 'Me',
+            name: 'me.png',
+            size: 3,
+            hasAttachment: false,
+        })
+    })
 
-        const testAction = defineHonoAction({
-            schema: z.object({
-                test: z.string(),
-            }),
-            handler: async (_input, c) => {
-                const env = c.env as MockBindings
+    it('should accept blobs and treat empty file inputs as missing', async () => {
+        const body = new FormData()
+        body.append('title', 'Me')
+        body.append('avatar', new Blob(['png'], { type: 'image/png' }))
+        body.append('attachment', new File([], ''))
 
-                // Test accessing environment variables
-                const apiKey = env.SOME_API_KEY
-                const sessionData = await env.ASTRO_LOCALS.kv.getItem(
-                    env.ASTRO_LOCALS.sessionId,
-                )
-                return { apiKey, sessionData }
+        const res = await app.request('/upload', { method: 'POST', body })
+
+        expect(res.status).toBe(200)
+        const json = await res.json()
+        expect(json.data.hasAttachment).toBe(false)
+    })
+
+    it('should name the offending field in the validation error', async () => {
+        const res = await client.upload.$post({
+            form: {
+                title: 'Me',
+                avatar: new File(['x'.repeat(2048)], 'me.txt', {
+                    type: 'text/plain',
+                }),
             },
         })
 
-        const app = new Hono<MockEnv>().basePath('/api')
-        app.use('*', (c, next) => {
-            c.env = mockEnv
-            return next()
-        }).route('/test-env', testAction)
+        expect(res.status).toBe(400)
+        const json = (await res.json()) as ActionResponse<unknown> & {
+            error: { issue?: unknown }
+        }
+        expect(json.error?.code).toBe('INPUT_VALIDATION_ERROR')
+        expect(json.error?.issue).toMatchObject({
+            path: ['avatar'],
+            message: 'avatar must be at most 1 KB, got 2 KB',
+        })
+    })
+})
+
+// Test GET actions
+describe('GET Actions', () => {
+    const searchAction = defineHonoAction({
+        method: 'GET',
+        schema: z.object({
+            q: z.string(),
+            page: z.number().default(1),
+            exact: z.boolean().default(false),
+            archived: z.boolean().optional(),
+            notify: z.boolean().default(true),
+            tags: z.array(z.string()).optional(),
+        }),
+        handler: async (input) => input,
+    })
+    const app = new Hono().route('/search', searchAction)
+    const client = testClient(app)
 
+    it('should validate and coerce the query string', async () => {
         const res = await app.request(
-            '/api/test-env',
-            {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ test: 'value' }),
+            '/search?q=hono&page=2&exact=true&tags=a&tags=b',
+        )
+
+        expect(res.status).toBe(200)
+        expect(await res.json()).toEqual({
+            data: {
+                q: 'hono',
+                page: 2,
+                exact: true,
+                notify: true,
+                tags: ['a', 'b'],
             },
-            mockEnv,
+            error: null,
+        })
+    })
+
+    it('should type the client query input', async () => {
+        const res = await client.search.$get({
+            query: { q: 'hono', tags: ['a'] },
+        })
+
+        expect(res.status).toBe(200)
+        const json = await res.json()
+        expect(json.data).toEqual({
+            q: 'hono',
+            page: 1,
+            exact: false,
+            notify: true,
+            tags: ['a'],
+        })
+    })
+
+    it('should not treat missing query booleans as unchecked checkboxes', async () => {
+        const res = await app.request('/search?q=hono&notify=false')
+
+        expect(await res.json()).toEqual({
+            data: { q: 'hono', page: 1, exact: false, notify: false },
+            error: null,
+        })
+    })
+
+    it('should ignore query names that reach the prototype', async () => {
+        const res = await app.request(
+            '/search?q=hono&__proto__.polluted=1&constructor.prototype.polluted=1',
         )
 
         expect(res.status).toBe(200)
+        expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+    })
+
+    it('should return a validation error for invalid query parameters', async () => {
+        const res = await app.request('/search?page=abc')
+
+        expect(res.status).toBe(400)
+        const json = (await res.json()) as ActionResponse<unknown>
+        expect(json.data).toBeNull()
+        expect(json.error?.code).toBe('INPUT_VALIDATION_ERROR')
+    })
+
+    it('should only register the GET route', async () => {
+        const res = await app.request('/search?q=hono', { method: 'POST' })
+
+        expect(res.status).toBe(404)
+    })
+})
+
+declare module '../src/actions' {
+    interface ActionErrorCodes {
+        INSUFFICIENT_CREDITS: {
+            status: 402
+            issue: { required: number; available: number }
+        }
+    }
+}
+
+describe('Custom Error Codes', () => {
+    const buyCredits = defineHonoAction({
+        schema: z.object({ amount: z.number() }),
+        handler: async ({ amount }) => {
+            if (amount > 10) {
+                throw new HonoActionError({
+                    message: 'Not enough credits',
+                    code: 'INSUFFICIENT_CREDITS',
+                    status: 402,
+                    issue: { required: amount, available: 10 },
+                })
+            }
+            return { remaining: 10 - amount }
+        },
+    })
+    const app = new Hono().route('/buyCredits', buyCredits)
+    const client = testClient(app)
+
+    it('should respond with the status and issue of the custom code', async () => {
+        const res = await client.buyCredits.$post({ json: { amount: 25 } })
+
+        expect(res.status).toBe(402)
+        expect(await res.json()).toEqual({
+            data: null,
+            error: {
+                message: 'Not enough credits',
+                code: 'INSUFFICIENT_CREDITS',
+                status: 402,
+                issue: { required: 25, available: 10 },
+            },
+        })
+    })
 
+    it('should type the custom code and its issue on the client', async () => {
+        const res = await client.buyCredits.$post({ json: { amount: 25 } })
         const json = await res.json()
-        expect(json.data.apiKey).toBe('test-key')
-        expect(json.data.sessionData).toEqual({ some: 'data' })
+
+        expectTypeOf<'INSUFFICIENT_CREDITS'>().toExtend<
+            NonNullable<typeof json.error>['code']
+        >()
+        if (json.error?.code === 'INSUFFICIENT_CREDITS') {
+            expectTypeOf(json.error.issue).toEqualTypeOf<
+                { required: number; available: number } | undefined
+            >()
+        }
+        expect(json.error?.code).toBe('INSUFFICIENT_CREDITS')
+    })
+
+    it('should require the declared status for custom codes', () => {
+        // @ts-expect-error the status of custom codes is required
+        new HonoActionError({ message: 'No', code: 'INSUFFICIENT_CREDITS' })
+        new HonoActionError({
+            message: 'No',
+            code: 'INSUFFICIENT_CREDITS',
+            // @ts-expect-error the status must match the declared one
+            status: 400,
+        })
+    })
+
+    it('should not send an issue when the error has none', async () => {
+        const action = defineHonoAction({
+            handler: async () => {
+                throw new HonoActionError({
+                    message: 'Nope',
+                    code: 'FORBIDDEN',
+                })
+            },
+        })
+        const res = await new Hono()
+            .route('/forbidden', action)
+            .request('/forbidden', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({}),
+            })
+
+        expect(res.status).toBe(403)
+        expect(await res.json()).toEqual({
+            data: null,
+            error: { message: 'Nope', code: 'FORBIDDEN', status: 403 },
+        })
+    })
+})
+
+describe('Validation Errors', () => {
+    const signup = defineHonoAction({
+        schema: z.object({
+            email: z.string().email(),
+            age: z.number().min(18),
+            address: z.object({ city: z.string().min(1) }),
+            tags: z.array(z.string().max(3)).optional(),
+        }),
+        handler: async (input) => input,
+    })
+    const app = new Hono().route('/signup', signup)
+    const client = testClient(app)
+
+    it('should return every issue with field errors keyed by path', async () => {
+        const res = await client.signup.$post({
+            json: {
+                email: 'not-an-email',
+                age: 12,
+                address: { city: '' },
+                tags: ['ok', 'too-long'],
+            },
+        })
+
+        expect(res.status).toBe(400)
+        const json = (await res.json()) as ActionResponse<unknown> & {
+            error: ActionValidationError
+        }
+        expect(json.data).toBeNull()
+        expect(json.error.code).toBe('INPUT_VALIDATION_ERROR')
+        expect(json.error.issues).toHaveLength(4)
+        expect(json.error.issue).toEqual(json.error.issues[0])
+        expect(json.error.message).toBe(json.error.issues[0]?.message)
+        expect(Object.keys(json.error.fieldErrors)).toEqual([
+            'email',
+            'age',
+            'address.city',
+            'tags.1',
+        ])
+        expect(json.error.fieldErrors.email).toEqual(['Invalid email'])
+    })
+
+    it('should collect several issues of the same field', async () => {
+        const action = defineHonoAction({
+            schema: z.object({
+                password: z.string().min(8).regex(/[0-9]/),
+            }),
+            handler: async () => ({ ok: true }),
+        })
+        const res = await new Hono()
+            .route('/password', action)
+            .request('/password', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ password: 'abc' }),
+            })
+
+        const json = (await res.json()) as { error: ActionValidationError }
+        expect(json.error.fieldErrors.password).toHaveLength(2)
+    })
+
+    it('should use the same format for validation errors thrown by the handler', async () => {
+        const action = defineHonoAction({
+            schema: z.object({ username: z.string() }),
+            handler: async ({ username }) => {
+                throw new HonoActionError({
+                    message: 'Username is taken',
+                    code: 'INPUT_VALIDATION_ERROR',
+                    issue: { message: 'Already taken', path: ['username'] },
+                })
+            },
+        })
+        const res = await new Hono()
+            .route('/register', action)
+            .request('/register', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ username: 'john' }),
+            })
+
+        expect(res.status).toBe(400)
+        const json = (await res.json()) as { error: ActionValidationError }
+        expect(json.error).toEqual({
+            message: 'Username is taken',
+            code: 'INPUT_VALIDATION_ERROR',
+            status: 400,
+            issue: { message: 'Already taken', path: ['username'] },
+            issues: [{ message: 'Already taken', path: ['username'] }],
+            fieldErrors: { username: ['Already taken'] },
+        })
+    })
+
+    it('should type the field errors on the client', async () => {
+        const res = await client.signup.$post({
+            json: { email: 'john@example.com', age: 1, address: { city: 'x' } },
+        })
+
+        const json = await res.json()
+        if (json.error?.code === 'INPUT_VALIDATION_ERROR') {
+            expectTypeOf(
+                json.error.code,
+            ).toEqualTypeOf<'INPUT_VALIDATION_ERROR'>()
+            expectTypeOf(json.error.fieldErrors).toEqualTypeOf<{
+                email?: string[]
+                age?: string[]
+                address?: string[]
+                'address.city'?: string[]
+                tags?: string[]
+                [key: `tags.${number}`]: string[] | undefined
+            }>()
+        }
+        expect(res.status).toBe(400)
+    })
+})
+
+describe('Standard Schema', () => {
+    const createPost = defineHonoAction({
+        schema: v.object({
+            title: v.pipe(v.string(), v.minLength(3, 'Title is too short')),
+            tags: v.optional(v.array(v.string()), []),
+        }),
+        output: v.object({ id: v.number(), title: v.string() }),
+        handler: async (input) => ({ id: 1, secret: 'x', ...input }),
+    })
+    const app = new Hono().route('/createPost', createPost)
+    const client = testClient(app)
+
+    it('should validate and type the input with a valibot schema', async () => {
+        const res = await client.createPost.$post({
+            json: { title: 'Hello' },
+        })
+
+        expect(res.status).toBe(200)
+        const json = await res.json()
+        expectTypeOf(json.data).toEqualTypeOf<{
+            id: number
+            title: string
+        } | null>()
+        expect(json.data).toEqual({ id: 1, title: 'Hello' })
+    })
+
+    it('should infer the handler input from the schema output', () => {
+        defineHonoAction({
+            schema: v.object({ tags: v.optional(v.array(v.string()), []) }),
+            handler: async (input) => {
+                expectTypeOf(input).toEqualTypeOf<{ tags: string[] }>()
+                return input
+            },
+        })
+    })
+
+    it('should use the same validation error format as zod', async () => {
+        const res = await client.createPost.$post({ json: { title: 'Hi' } })
+
+        expect(res.status).toBe(400)
+        expect(await res.json()).toEqual({
+            data: null,
+            error: {
+                message: 'Title is too short',
+                code: 'INPUT_VALIDATION_ERROR',
+                status: 400,
+                issue: { message: 'Title is too short', path: ['title'] },
+                issues: [{ message: 'Title is too short', path: ['title'] }],
+                fieldErrors: { title: ['Title is too short'] },
+            },
+        })
+    })
+
+    it('should read form values without coercion', async () => {
+        const action = defineHonoAction({
+            input: 'form',
+            schema: v.object({
+                name: v.string(),
+                age: v.pipe(v.string(), v.toNumber()),
+            }),
+            handler: async (input) => input,
+        })
+        const body = new FormData()
+        body.append('name', 'John')
+        body.append('age', '30')
+
+        const res = await new Hono()
+            .route('/form', action)
+            .request('/form', { method: 'POST', body })
+
+        expect(await res.json()).toEqual({
+            data: { name: 'John', age: 30 },
+            error: null,
+        })
+    })
+})
+
+describe('Action Middleware', () => {
+    type User = { id: string; role: 'admin' | 'user' }
+
+    const auth = createMiddleware<{ Variables: { user: User } }>(
+        async (c, next) => {
+            const token = c.req.header('Authorization')
+            if (!token) {
+                throw new HonoActionError({
+                    message: 'Sign in first',
+                    code: 'UNAUTHORIZED',
+                })
+            }
+            c.set('user', { id: token, role: 'user' })
+            await next()
+        },
+    )
+    // reads the user set by the auth middleware, which runs first
+    const db = createMiddleware<{
+        Variables: { user: User; db: { name: string } }
+    }>(async (c, next) => {
+        c.set('db', { name: `db-of-${c.var.user.id}` })
+        await next()
+    })
+
+    const whoAmI = defineHonoAction({
+        schema: z.object({ greeting: z.string() }),
+        middleware: [auth, db],
+        handler: async ({ greeting }, c) => {
+            expectTypeOf(c.var.user).toEqualTypeOf<User>()
+            expectTypeOf(c.var.db).toEqualTypeOf<{ name: string }>()
+            expectTypeOf(c.get('user')).toEqualTypeOf<User>()
+            return { greeting, user: c.var.user, db: c.var.db.name }
+        },
+    })
+    const app = new Hono().route('/whoAmI', whoAmI)
+
+    it('should run the middleware in order and expose their variables', async () => {
+        const res = await app.request('/whoAmI', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: 'user-1',
+            },
+            body: JSON.stringify({ greeting: 'hi' }),
+        })
+
+        expect(res.status).toBe(200)
+        expect(await res.json()).toEqual({
+            data: {
+                greeting: 'hi',
+                user: { id: 'user-1', role: 'user' },
+                db: 'db-of-user-1',
+            },
+            error: null,
+        })
+    })
+
+    it('should run the middleware before the input is validated', async () => {
+        const res = await app.request('/whoAmI', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({}),
+        })
+
+        expect(res.status).toBe(401)
+        expect(await res.json()).toEqual({
+            data: null,
+            error: {
+                message: 'Sign in first',
+                code: 'UNAUTHORIZED',
+                status: 401,
+            },
+        })
+    })
+
+    it('should not call the handler when a middleware responds', async () => {
+        const handler = vi.fn(async () => ({ ok: true }))
+        const action = defineHonoAction({
+            middleware: [
+                createMiddleware(async (c) => c.text('Maintenance', 503)),
+            ],
+            handler,
+        })
+
+        const res = await new Hono()
+            .route('/action', action)
+            .request('/action', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({}),
+            })
+
+        expect(res.status).toBe(503)
+        expect(await res.text()).toBe('Maintenance')
+        expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('should keep the astro variables typed', () => {
+        defineHonoAction({
+            middleware: [auth],
+            handler: async (_input, c) => {
+                expectTypeOf(c.var.url).toEqualTypeOf<URL>()
+                return c.var.user.id
+            },
+        })
+    })
+})
+
+describe('Output Schema', () => {
+    const getUser = defineHonoAction({
+        schema: z.object({ id: z.string() }),
+        output: z.object({
+            id: z.string(),
+            email: z.string().email(),
+            createdAt: z.string().transform((value) => new Date(value)),
+        }),
+        handler: async ({ id }) => ({
+            id,
+            email: id === 'broken' ? 'not-an-email' : 'john@example.com',
+            createdAt: '2024-01-01T00:00:00.000Z',
+            passwordHash: 'secret',
+        }),
+    })
+    const app = new Hono().route('/getUser', getUser)
+    const client = testClient(app)
+
+    it('should strip fields that are not in the output schema', async () => {
+        const res = await client.getUser.$post({ json: { id: '1' } })
+
+        expect(res.status).toBe(200)
+        const json = await res.json()
+        expect(json.data).toEqual({
+            id: '1',
+            email: 'john@example.com',
+            createdAt: '2024-01-01T00:00:00.000Z',
+        })
+        expect(json.data).not.toHaveProperty('passwordHash')
+    })
+
+    it('should type the client data with the output schema', async () => {
+        const res = await client.getUser.$post({ json: { id: '1' } })
+        const json = await res.json()
+
+        expectTypeOf(json.data).toEqualTypeOf<{
+            id: string
+            email: string
+            createdAt: string
+        } | null>()
+    })
+
+    it('should return an internal error when the output does not match', async () => {
+        const res = await client.getUser.$post({ json: { id: 'broken' } })
+
+        expect(res.status).toBe(500)
+        const json = (await res.json()) as ActionResponse<unknown>
+        expect(json.data).toBeNull()
+        expect(json.error?.code).toBe('INTERNAL_SERVER_ERROR')
+        expect(json.error).not.toHaveProperty('issue')
+        expect(consoleErrorSpy).toHaveBeenCalled()
+    })
+})
+
+// Test the action routes integration
+describe('Streaming Actions', () => {
+    const importUsers = defineHonoStreamAction({
+        schema: z.object({ count: z.number().min(1) }),
+        handler: async function* ({ count }) {
+            for (let done = 1; done <= count; done++) {
+                yield { done, total: count }
+            }
+        },
+    })
+    const failing = defineHonoStreamAction({
+        schema: z.object({ failAt: z.number() }),
+        handler: async function* ({ failAt }) {
+            for (let step = 0; ; step++) {
+                if (step === failAt) {
+                    throw new HonoActionError({
+                        message: 'Import source not found',
+                        code: 'NOT_FOUND',
+                    })
+                }
+                yield { step }
+            }
+        },
+    })
+    const app = new Hono()
+        .route('/importUsers', importUsers)
+        .route('/failing', failing)
+    const client = testClient(app)
+
+    it('should send each yielded value as an event', async () => {
+        const res = await app.request('/importUsers', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ count: 2 }),
+        })
+
+        expect(res.status).toBe(200)
+        expect(res.headers.get('Content-Type')).toBe('text/event-stream')
+        expect(await res.text()).toBe(
+            'data: {"done":1,"total":2}\n\ndata: {"done":2,"total":2}\n\n',
+        )
+    })
+
+    it('should read typed events on the client', async () => {
+        const events = []
+        for await (const event of readActionStream(
+            client.importUsers.$post({ json: { count: 3 } }),
+        )) {
+            expectTypeOf(event).toEqualTypeOf<{ done: number; total: number }>()
+            events.push(event)
+        }
+
+        expect(events).toEqual([
+            { done: 1, total: 3 },
+            { done: 2, total: 3 },
+            { done: 3, total: 3 },
+        ])
+    })
+
+    it('should validate the input before streaming', async () => {
+        const res = await client.importUsers.$post({ json: { count: 0 } })
+
+        expect(res.status).toBe(400)
+        await expect(readActionStream(res).next()).rejects.toMatchObject({
+            code: 'INPUT_VALIDATION_ERROR',
+            status: 400,
+        })
+    })
+
+    it('should throw an unknown error for responses without a JSON error', async () => {
+        const error = await readActionStream(app.request('/missing'))
+            .next()
+            .catch((error) => error)
+
+        expect(error).toBeInstanceOf(HonoActionError)
+        expect(error).toMatchObject({ code: 'UNKNOWN_ERROR', status: 404 })
+    })
+
+    it('should respond with the error status when the first event fails', async () => {
+        const res = await client.failing.$post({ json: { failAt: 0 } })
+
+        expect(res.status).toBe(404)
+        expect(await res.json()).toEqual({
+            data: null,
+            error: {
+                message: 'Import source not found',
+                code: 'NOT_FOUND',
+                status: 404,
+            },
+        })
+    })
+
+    it('should send later errors as an error event', async () => {
+        const events: unknown[] = []
+        const read = async () => {
+            for await (const event of readActionStream(
+                client.failing.$post({ json: { failAt: 2 } }),
+            )) {
+                events.push(event)
+            }
+        }
+
+        const error = await read().catch((error: unknown) => error)
+        expect(error).toBeInstanceOf(HonoActionError)
+        expect(error).toMatchObject({
+            message: 'Import source not found',
+            code: 'NOT_FOUND',
+            status: 404,
+        })
+        expect(events).toEqual([{ step: 0 }, { step: 1 }])
+    })
+})
+
+describe('Action Routes', () => {
+    it('should properly integrate multiple actions', async () => {
+        const schema1 = z.object({ field: z.string() })
+        const schema2 = z.object({ number: z.number() })
+
+        const actions = {
+            action1: defineHonoAction({
+                schema: schema1,
+                handler: async (input) => input,
+            }),
+            action2: defineHonoAction({
+                schema: schema2,
+                handler: async (input) => input,
+            }),
+        }
+
+        const app = new Hono<HonoEnv, Schema>().basePath('/api/_actions')
+
+        app.route('/action1', actions.action1)
+        app.route('/action2', actions.action2)
+
+        // Test first action
+        const res1 = await app.request('/api/_actions/action1', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ field: 'test' }),
+        })
+        expect(res1.status).toBe(200)
+
+        // Test second action
+        const res2 = await app.request('/api/_actions/action2', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ number: 42 }),
+        })
+        expect(res2.status).toBe(200)
+    })
+})
+
+// Test environment bindings
+describe('Environment Bindings', () => {
+    it('should handle environment variables correctly', async () => {
+        const mockEnv = {
+            SOME_API_KEY: 'test-key',
+            ASTRO_LOCALS: {
+                kv: {
+                    getItem: vi.fn().mockResolvedValue({ some: 'data' }),
+                    setItem: vi.fn().mockResolvedValue(undefined),
+                },
+                sessionId: 'test-session',
+            },
+        }
+        type MockBindings = typeof mockEnv
+
+        interface MockEnv {
+            Bindings: MockBindings
+            Variables: Record<string, unknown>
+        }
+
+        const testAction = defineHonoAction({
+            schema: z.object({
+                test: z.string(),
+            }),
+            handler: async (_input, c) => {
+                const env = c.env as MockBindings
+
+                // Test accessing environment variables
+                const apiKey = env.SOME_API_KEY
+                const sessionData = await env.ASTRO_LOCALS.kv.getItem(
+                    env.ASTRO_LOCALS.sessionId,
+                )
+                return { apiKey, sessionData }
+            },
+        })
+
+        const app = new Hono<MockEnv>().basePath('/api')
+        app.use('*', (c, next) => {
+            c.env = mockEnv
+            return next()
+        }).route('/test-env', testAction)
+
+        const res = await app.request(
+            '/api/test-env',
+            {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ test: 'value' }),
+            },
+            mockEnv,
+        )
+
+        expect(res.status).toBe(200)
+
+        const json = await res.json()
+        expect(json.data.apiKey).toBe('test-key')
+        expect(json.data.sessionData).toEqual({ some: 'data' })
+    })
+})
+
+// Test the astro context forwarded by the generated API handler
+describe('Astro Context', () => {
+    const astroCtx = {
+        locals: { db: 'test-db' },
+        cookies: { get: vi.fn().mockReturnValue({ value: 'session-id' }) },
+        url: new URL('http://localhost/api/test-astro'),
+        redirect: vi.fn(),
+        get clientAddress(): string {
+            throw new Error('clientAddress is not available')
+        },
+    }
+
+    it('should expose the astro context on c.var', async () => {
+        const testAction = defineHonoAction({
+            handler: async (_input, c) => {
+                return {
+                    locals: c.var.locals,
+                    session: c.var.cookies.get('session')?.value,
+                    pathname: c.var.url.pathname,
+                    clientAddress: c.var.clientAddress ?? null,
+                }
+            },
+        })
+
+        const app = new Hono()
+            .basePath('/api')
+            .use('*', astroContext())
+            .route('/test-astro', testAction)
+
+        const res = await app.request(
+            '/api/test-astro',
+            {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({}),
+            },
+            { ASTRO_LOCALS: astroCtx.locals, ASTRO_CONTEXT: astroCtx },
+        )
+
+        expect(res.status).toBe(200)
+        const json = await res.json()
+        expect(json.data).toEqual({
+            locals: { db: 'test-db' },
+            session: 'session-id',
+            pathname: '/api/test-astro',
+            clientAddress: null,
+        })
+    })
+
+    it('should skip when no astro context is forwarded', async () => {
+        const app = new Hono()
+            .use('*', astroContext())
+            .get('/', (c) => c.json({ locals: c.var.locals ?? null }))
+
+        const res = await app.request('/')
+        expect(await res.json()).toEqual({ locals: null })
+    })
+})
+
+describe('Form Actions', () => {
+    const app = new Hono()
+        .basePath('/api')
+        .use('*', formActions('/api'))
+        .route(
+            '/signup',
+            defineHonoAction({
+                schema: z.object({
+                    email: z.string().email(),
+                    plan: z.enum(['free', 'pro']),
+                }),
+                input: 'auto',
+                handler: async ({ email, plan }) => ({ email, plan }),
+            }),
+        )
+        .route(
+            '/jsonOnly',
+            defineHonoAction({
+                schema: z.object({ email: z.string() }),
+                input: 'json',
+                handler: async (input) => input,
+            }),
+        )
+        .route(
+            '/login',
+            defineHonoAction({
+                schema: z.object({ email: z.string() }),
+                input: 'form',
+                handler: async ({ email }, c) => {
+                    setCookie(c, 'session', 'abc', { httpOnly: true })
+                    return { email }
+                },
+            }),
+        )
+
+    const postForm = (
+        body: Record<string, string>,
+        headers: Record<string, string> = {},
+        action = 'signup',
+    ) =>
+        app.request(`/api/${action}?${FORM_ACTION_PARAM}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+                Referer: 'http://localhost/signup?ref=home',
+                ...headers,
+            },
+            body: new URLSearchParams(body),
+        })
+
+    const readCookie = (res: Response) => {
+        const cookie =
+            res.headers
+                .getSetCookie()
+                .find((cookie) => cookie.startsWith('hono-actions-form=')) ?? ''
+        const value = cookie.slice(cookie.indexOf('=') + 1, cookie.indexOf(';'))
+        return JSON.parse(decodeURIComponent(value))
+    }
+
+    it('should redirect back to the page with the result', async () => {
+        const res = await postForm({ email: 'ada@example.com', plan: 'pro' })
+
+        expect(res.status).toBe(303)
+        expect(res.headers.get('Location')).toBe('/signup?ref=home')
+        expect(res.headers.get('Content-Type')).toBeNull()
+        expect(res.headers.get('Set-Cookie')).toContain('hono-actions-form=')
+        expect(res.headers.get('Set-Cookie')).toContain('HttpOnly')
+        expect(res.headers.get('Set-Cookie')).toContain('SameSite=Lax')
+        expect(readCookie(res)).toEqual({
+            action: 'signup',
+            data: { email: 'ada@example.com', plan: 'pro' },
+            error: null,
+        })
+    })
+
+    it('should redirect back with the field errors', async () => {
+        const res = await postForm({ email: 'nope', plan: 'pro' })
+
+        expect(res.status).toBe(303)
+        const result = readCookie(res)
+        expect(result.data).toBeNull()
+        expect(result.error.code).toBe('INPUT_VALIDATION_ERROR')
+        expect(result.error.fieldErrors.email).toBeDefined()
+    })
+
+    it('should not redirect to another origin', async () => {
+        const res = await postForm(
+            { email: 'ada@example.com', plan: 'pro' },
+            { Referer: 'https://evil.example.com/phish' },
+        )
+
+        expect(res.status).toBe(303)
+        expect(res.headers.get('Location')).toBe('/')
+    })
+
+    it('should keep the cookies set by the action', async () => {
+        const res = await postForm({ email: 'ada@example.com' }, {}, 'login')
+
+        expect(res.status).toBe(303)
+        expect(res.headers.getSetCookie()).toEqual([
+            'session=abc; Path=/; HttpOnly',
+            expect.stringContaining('hono-actions-form='),
+        ])
+        expect(readCookie(res)).toMatchObject({
+            action: 'login',
+            data: { email: 'ada@example.com' },
+        })
+    })
+
+    it('should keep JSON actions closed to forms', async () => {
+        const res = await postForm(
+            { email: 'ada@example.com', '__proto__.isAdmin': 'true' },
+            {},
+            'jsonOnly',
+        )
+
+        expect(res.status).toBe(303)
+        expect(readCookie(res)).toMatchObject({
+            action: 'jsonOnly',
+            data: null,
+            error: { code: 'INPUT_VALIDATION_ERROR', status: 415 },
+        })
+        expect(({} as Record<string, unknown>).isAdmin).toBeUndefined()
+    })
+
+    it('should leave other requests untouched', async () => {
+        const res = await app.request('/api/signup', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email: 'ada@example.com', plan: 'free' }),
+        })
+
+        expect(res.status).toBe(200)
+        expect(res.headers.get('Set-Cookie')).toBeNull()
+        expect(await res.json()).toEqual({
+            data: { email: 'ada@example.com', plan: 'free' },
+            error: null,
+        })
+    })
+
+    describe('getFormActionResult', () => {
+        const createCookies = (value?: string) => ({
+            get: vi.fn().mockReturnValue(value ? { value } : undefined),
+            delete: vi.fn(),
+        })
+        const result = {
+            action: 'signup',
+            data: { email: 'ada@example.com' },
+            error: null,
+        }
+
+        it('should read the result once', () => {
+            const cookies = createCookies(JSON.stringify(result))
+
+            expect(getFormActionResult({ cookies: cookies as any })).toEqual(
+                result,
+            )
+            expect(cookies.delete).toHaveBeenCalledWith('hono-actions-form', {
+                path: '/',
+            })
+        })
+
+        it('should keep the result of another action', () => {
+            const cookies = createCookies(JSON.stringify(result))
+
+            expect(
+                getFormActionResult({ cookies: cookies as any }, 'login'),
+            ).toBeUndefined()
+            expect(cookies.delete).not.toHaveBeenCalled()
+        })
+
+        it('should return undefined without a result', () => {
+            expect(
+                getFormActionResult({ cookies: createCookies() as any }),
+            ).toBeUndefined()
+        })
+    })
+})
+
+describe('Actions Proxy', () => {
+    const methods: string[] = []
+    const routes = new Hono()
+        .basePath('/api')
+        .use('*', async (c, next) => {
+            methods.push(c.req.method)
+            await next()
+        })
+        .route(
+            '/billing/buyCredits',
+            defineHonoAction({
+                schema: z.object({ amount: z.number() }),
+                handler: async ({ amount }) => {
+                    if (amount > 10) {
+                        throw new HonoActionError({
+                            message: 'Not enough credits',
+                            code: 'INSUFFICIENT_CREDITS',
+                            status: 402,
+                            issue: { required: amount, available: 10 },
+                        })
+                    }
+                    return { remaining: 10 - amount }
+                },
+            }),
+        )
+        .route(
+            '/search',
+            defineHonoAction({
+                method: 'GET',
+                schema: z.object({ q: z.string() }),
+                handler: async ({ q }) => ({ results: [q] }),
+            }),
+        )
+        .route(
+            '/upload',
+            defineHonoAction({
+                schema: z.object({
+                    name: z.string(),
+                    tags: z.array(z.string()),
+                }),
+                input: 'form',
+                handler: async (input) => input,
+            }),
+        )
+        .route(
+            '/ping',
+            defineHonoAction({
+                handler: async () => 'pong' as const,
+            }),
+        )
+    const actions = createActionsProxy(testClient(routes).api, {
+        getActions: ['search'],
+    })
+
+    beforeEach(() => {
+        methods.length = 0
+    })
+
+    it('should resolve with the data of the action', async () => {
+        const data = await actions.billing.buyCredits({ amount: 4 })
+
+        expectTypeOf(data).toEqualTypeOf<{ remaining: number }>()
+        expect(data).toEqual({ remaining: 6 })
+    })
+
+    it('should make the input optional when the action takes none', async () => {
+        expect(await actions.ping()).toBe('pong')
+        // @ts-expect-error the input of buyCredits is required
+        await actions.billing.buyCredits().catch(() => {})
+    })
+
+    it('should throw a HonoActionError with the code, status and issue', async () => {
+        const error = await actions.billing
+            .buyCredits({ amount: 25 })
+            .catch((error: unknown) => error)
+
+        expect(error).toBeInstanceOf(HonoActionError)
+        expect(error).toMatchObject({
+            message: 'Not enough credits',
+            code: 'INSUFFICIENT_CREDITS',
+            status: 402,
+            issue: { required: 25, available: 10 },
+        })
+    })
+
+    it('should return a discriminated union from safe', async () => {
+        const result = await actions.billing.buyCredits.safe({ amount: 25 })
+
+        if (result.error) {
+            expectTypeOf(result.data).toBeNull()
+            if (result.error.code === 'INSUFFICIENT_CREDITS') {
+                expectTypeOf(result.error.issue).toEqualTypeOf<
+                    { required: number; available: number } | undefined
+                >()
+            }
+        } else {
+            expectTypeOf(result.data).toEqualTypeOf<{ remaining: number }>()
+        }
+        expect(result).toEqual({
+            data: null,
+            error: {
+                message: 'Not enough credits',
+                code: 'INSUFFICIENT_CREDITS',
+                status: 402,
+                issue: { required: 25, available: 10 },
+            },
+        })
+        expect(await actions.billing.buyCredits.safe({ amount: 1 })).toEqual({
+            data: { remaining: 9 },
+            error: null,
+        })
+    })
+
+    it('should return validation errors from safe', async () => {
+        // @ts-expect-error amount must be a number
+        const result = await actions.billing.buyCredits.safe({ amount: 'a' })
+
+        expect(result.data).toBeNull()
+        expect(result.error?.code).toBe('INPUT_VALIDATION_ERROR')
+    })
+
+    it('should call GET actions with a query string', async () => {
+        const data = await actions.search({ q: 'hono' })
+
+        expectTypeOf(data).toEqualTypeOf<{ results: string[] }>()
+        expect(data).toEqual({ results: ['hono'] })
+        expect(methods).toEqual(['GET'])
+    })
+
+    it('should call the other actions with POST', async () => {
+        await actions.billing.buyCredits({ amount: 1 })
+
+        expect(methods).toEqual(['POST'])
+    })
+
+    it('should send FormData to form actions', async () => {
+        const formData = new FormData()
+        formData.append('name', 'report')
+        formData.append('tags', 'a')
+        formData.append('tags', 'b')
+
+        expect(await actions.upload(formData)).toEqual({
+            name: 'report',
+            tags: ['a', 'b'],
+        })
+    })
+
+    it('should throw UNKNOWN_ERROR for responses that are not from an action', async () => {
+        const missing = createActionsProxy(testClient(routes).api) as any
+        const error = await missing.missing().catch((error: unknown) => error)
+
+        expect(error).toBeInstanceOf(HonoActionError)
+        expect(error).toMatchObject({ code: 'UNKNOWN_ERROR', status: 404 })
+    })
+
+    it('should not be thenable', () => {
+        expect((actions.billing as any).then).toBeUndefined()
+    })
+})
+
+describe('Client Validation', () => {
+    const schemas = {
+        signup: z.object({ email: z.string().email(), age: z.number() }),
+        billing: { refund: z.object({ amount: z.number().positive() }) },
+        getGreeting: z.object({ name: z.string(), times: z.number() }),
+    }
+    const handler = vi.fn(async (input: unknown) => input)
+    const routes = new Hono()
+        .basePath('/api')
+        .route(
+            '/signup',
+            defineHonoAction({
+                schema: schemas.signup,
+                input: 'auto',
+                handler,
+            }),
+        )
+        .route(
+            '/billing/refund',
+            defineHonoAction({ schema: schemas.billing.refund, handler }),
+        )
+        .route(
+            '/getGreeting',
+            defineHonoAction({
+                method: 'GET',
+                schema: schemas.getGreeting,
+                handler,
+            }),
+        )
+    const client = testClient(routes).api
+
+    beforeEach(() => {
+        handler.mockClear()
+    })
+
+    it('should not send invalid input when a call is validated', async () => {
+        const actions = createActionsProxy(client)
+
+        const result = await actions.signup.safe(
+            { email: 'nope', age: 30 },
+            { validate: schemas.signup },
+        )
+
+        expect(handler).not.toHaveBeenCalled()
+        expect(result.error).toMatchObject({
+            code: 'INPUT_VALIDATION_ERROR',
+            status: 400,
+            fieldErrors: { email: ['Invalid email'] },
+        })
+    })
+
+    it('should throw the validation error from the throwing call', async () => {
+        const actions = createActionsProxy(client)
+
+        const error = await actions
+            .signup({ email: 'nope', age: 30 }, { validate: schemas.signup })
+            .catch((error: unknown) => error)
+
+        expect(error).toBeInstanceOf(HonoActionError)
+        expect(error).toMatchObject({ code: 'INPUT_VALIDATION_ERROR' })
+        expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('should validate every call with the schemas of the proxy', async () => {
+        const actions = createActionsProxy(client, { schemas })
+
+        const result = await actions.billing.refund.safe({ amount: -1 })
+
+        expect(handler).not.toHaveBeenCalled()
+        expect(result.error?.code).toBe('INPUT_VALIDATION_ERROR')
+        expect(await actions.billing.refund({ amount: 5 })).toEqual({
+            amount: 5,
+        })
+        expect(handler).toHaveBeenCalledOnce()
+    })
+
+    it('should skip the schemas of the proxy with validate: false', async () => {
+        const actions = createActionsProxy(client, { schemas })
+
+        const result = await actions.billing.refund.safe(
+            { amount: -1 },
+            { validate: false },
+        )
+
+        expect(result.error?.code).toBe('INPUT_VALIDATION_ERROR')
+        expect(handler).not.toHaveBeenCalled()
+        expect(result.error).toMatchObject({
+            issues: [expect.objectContaining({ path: ['amount'] })],
+        })
+    })
+
+    it('should coerce the query of GET actions like the server before validating it', async () => {
+        const actions = createActionsProxy(client, {
+            schemas,
+            getActions: ['getGreeting'],
+        })
+
+        expect(await actions.getGreeting({ name: 'a', times: '2' })).toEqual({
+            name: 'a',
+            times: 2,
+        })
+        expect(
+            (await actions.getGreeting.safe({ name: 'a', times: 'x' })).error
+                ?.code,
+        ).toBe('INPUT_VALIDATION_ERROR')
+        expect(handler).toHaveBeenCalledOnce()
+    })
+
+    it('should coerce FormData like the server before validating it', async () => {
+        const actions = createActionsProxy(client, { schemas })
+        const formData = new FormData()
+        formData.append('email', 'john@example.com')
+        formData.append('age', '30')
+
+        expect(await actions.signup(formData)).toEqual({
+            email: 'john@example.com',
+            age: 30,
+        })
+    })
+})
+
+describe('Serialization', () => {
+    const routes = new Hono().basePath('/api').route(
+        '/schedule',
+        defineHonoAction({
+            schema: z.object({ at: z.date(), tags: z.set(z.string()) }),
+            handler: async ({ at, tags }) => {
+                if (tags.has('fail')) {
+                    throw new HonoActionError({
+                        message: 'Cannot schedule',
+                        code: 'CONFLICT',
+                    })
+                }
+                return {
+                    at,
+                    next: new Date(at.getTime() + 60_000),
+                    tags,
+                    attempts: new Map([['first', 1n]]),
+                }
+            },
+        }),
+    )
+    const input = { at: new Date('2025-01-01T00:00:00Z'), tags: new Set(['a']) }
+
+    it('should round-trip rich values through the proxy with devalue', async () => {
+        const actions = createActionsProxy(testClient(routes).api, {
+            serialization: 'devalue',
+        })
+
+        const data = await actions.schedule(input)
+
+        expectTypeOf(data).toEqualTypeOf<{
+            at: Date
+            next: Date
+            tags: Set<string>
+            attempts: Map<string, bigint>
+        }>()
+        expect(data).toEqual({
+            at: new Date('2025-01-01T00:00:00Z'),
+            next: new Date('2025-01-01T00:01:00Z'),
+            tags: new Set(['a']),
+            attempts: new Map([['first', 1n]]),
+        })
+    })
+
+    it('should type the JSON data when devalue is not used', () => {
+        const actions = createActionsProxy(testClient(routes).api)
+
+        expectTypeOf<
+            Awaited<ReturnType<typeof actions.schedule>>['next']
+        >().toEqualTypeOf<string>()
+    })
+
+    it('should only respond with devalue when the request asks for it', async () => {
+        const res = await routes.request('/api/schedule', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                [SERIALIZATION_HEADER]: 'devalue',
+            },
+            body: devalue.stringify(input),
+        })
+
+        expect(res.status).toBe(200)
+        expect(res.headers.get(SERIALIZATION_HEADER)).toBe('devalue')
+        expect(res.headers.get('Vary')).toContain(SERIALIZATION_HEADER)
+        expect(devalue.parse(await res.text()).data.at).toEqual(input.at)
+
+        const plain = await routes.request('/api/schedule', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(input),
+        })
+
+        expect(plain.status).toBe(400)
+        expect(plain.headers.get(SERIALIZATION_HEADER)).toBeNull()
+    })
+
+    it('should reject a body that is not devalue with a validation error', async () => {
+        const res = await routes.request('/api/schedule', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                [SERIALIZATION_HEADER]: 'devalue',
+            },
+            body: JSON.stringify(input),
+        })
+
+        expect(res.status).toBe(400)
+        expect(res.headers.get('Content-Type')).toContain('application/json')
+        expect(await res.json()).toMatchObject({
+            data: null,
+            error: {
+                code: 'INPUT_VALIDATION_ERROR',
+                status: 400,
+                message:
+                    'Malformed devalue body, send it with `devalue.stringify`',
+            },
+        })
+    })
+
+    it('should send errors as plain JSON', async () => {
+        const actions = createActionsProxy(testClient(routes).api, {
+            serialization: 'devalue',
+        })
+
+        const result = await actions.schedule.safe({
+            ...input,
+            tags: new Set(['fail']),
+        })
+
+        expect(result).toEqual({
+            data: null,
+            error: {
+                message: 'Cannot schedule',
+                code: 'CONFLICT',
+                status: 409,
+            },
+        })
     })
 })
 
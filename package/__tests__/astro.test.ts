@@ -47,4 +47,89 @@ describe('Astro Integration', async () => {
         expect(fs.existsSync(path.join(codeGenDir, 'types.d.ts'))).toBe(true)
         expect(fs.existsSync(path.join(codeGenDir, 'api.ts'))).toBe(true)
     })
+    it('[astro sync] generates the actions module from actionsDir', async () => {
+        const { default: integration } = await import('../src/integration')
+        const { default: cloudflare } = await import('@astrojs/cloudflare')
+        const { sync } = await import('../../node_modules/astro')
+        fs.mkdirSync(path.join(tmpDir, 'src/endpoints/billing'), {
+            recursive: true,
+        })
+        const action = `import { defineHonoAction } from '@gnosticdev/hono-actions/actions'
+    export default defineHonoAction({handler: async () => ({ id: 1 })})`
+        fs.writeFileSync(path.join(tmpDir, 'src/endpoints/hello.ts'), action)
+        fs.writeFileSync(
+            path.join(tmpDir, 'src/endpoints/billing/createInvoice.ts'),
+            action,
+        )
+
+        await sync({
+            adapter: cloudflare(),
+            root: tmpDir,
+            output: 'server',
+            integrations: [integration({ actionsDir: 'src/endpoints' })],
+            server: { port: 3333 },
+        })
+
+        const actionsModule = fs.readFileSync(
+            path.join(codeGenDir, 'actions.ts'),
+            'utf-8',
+        )
+        expect(actionsModule).toContain(
+            "import action0 from '../../../src/endpoints/billing/createInvoice'",
+        )
+        expect(actionsModule).toContain('"hello": action1')
+        expect(
+            fs.readFileSync(path.join(codeGenDir, 'router.ts'), 'utf-8'),
+        ).toContain("await import('./actions.ts')")
+    })
+
+    it('[astro sync] re-exports the schemas module', async () => {
+        const { default: integration } = await import('../src/integration')
+        const { default: cloudflare } = await import('@astrojs/cloudflare')
+        const { sync } = await import('../../node_modules/astro')
+        fs.mkdirSync(path.join(tmpDir, 'src/server'), { recursive: true })
+        fs.writeFileSync(
+            path.join(tmpDir, 'src/server/schemas.ts'),
+            `import { z } from 'astro/zod'
+    export const action1 = z.object({ name: z.string() })`,
+        )
+
+        await sync({
+            adapter: cloudflare(),
+            root: tmpDir,
+            output: 'server',
+            integrations: [integration({ client: { validate: true } })],
+            server: { port: 3333 },
+        })
+
+        expect(
+            fs.readFileSync(path.join(codeGenDir, 'schemas.ts'), 'utf-8'),
+        ).toContain("export * from '../../../src/server/schemas'")
+        expect(
+            fs.readFileSync(path.join(codeGenDir, 'client.ts'), 'utf-8'),
+        ).toContain("import * as schemas from './schemas.js'")
+    })
+
+    it('[astro sync] rejects action keys that collide with a page', async () => {
+        const { default: integration } = await import('../src/integration')
+        const { default: cloudflare } = await import('@astrojs/cloudflare')
+        const { sync } = await import('../../node_modules/astro')
+        fs.mkdirSync(path.join(tmpDir, 'src/pages/api'), { recursive: true })
+        fs.writeFileSync(
+            path.join(tmpDir, 'src/pages/api/action1.ts'),
+            'export const GET = () => new Response()',
+        )
+
+        await expect(
+            sync({
+                adapter: cloudflare(),
+                root: tmpDir,
+                output: 'server',
+                integrations: [integration()],
+                server: { port: 3333 },
+            }),
+        ).rejects.toThrow(
+            'src/hono.ts:2:33 /api/action1 collides with the page src/pages/api/action1.ts',
+        )
+    })
 })
@@ -1,6 +1,13 @@
 import { describe, expect, it } from 'vitest'
 import { z } from 'astro/zod'
-import { HonoActionError, type ActionErrorCode } from '../src/error'
+import {
+    ACTION_ERROR_STATUS,
+    createValidationError,
+    HonoActionError,
+    isHonoActionError,
+    toHonoActionError,
+    type ActionErrorCode,
+} from '../src/error'
 
 describe('HonoActionError', () => {
     describe('constructor', () => {
@@ -50,6 +57,13 @@ describe('HonoActionError', () => {
                 'UNKNOWN_ERROR',
                 'LOCATION_NOT_FOUND',
                 'SESSION_NOT_FOUND',
+                'UNAUTHORIZED',
+                'FORBIDDEN',
+                'NOT_FOUND',
+                'CONFLICT',
+                'RATE_LIMITED',
+                'TIMEOUT',
+                'PAYLOAD_TOO_LARGE',
             ]
 
             codes.forEach((code) => {
@@ -62,6 +76,40 @@ describe('HonoActionError', () => {
         })
     })
 
+    describe('status', () => {
+        it('should default to the status of the error code', () => {
+            expect(
+                new HonoActionError({ message: 'Nope', code: 'FORBIDDEN' })
+                    .status,
+            ).toBe(403)
+            expect(
+                new HonoActionError({ message: 'Slow', code: 'TIMEOUT' })
+                    .status,
+            ).toBe(504)
+            expect(
+                new HonoActionError({ message: 'Oops', code: 'UNKNOWN_ERROR' })
+                    .status,
+            ).toBe(500)
+        })
+
+        it('should map every error code to a status', () => {
+            for (const status of Object.values(ACTION_ERROR_STATUS)) {
+                expect(status).toBeGreaterThanOrEqual(400)
+            }
+        })
+
+        it('should allow overriding the status', () => {
+            const error = new HonoActionError({
+                message: 'Try again later',
+                code: 'RATE_LIMITED',
+                status: 503,
+            })
+
+            expect(error.code).toBe('RATE_LIMITED')
+            expect(error.status).toBe(503)
+        })
+    })
+
     describe('error inheritance', () => {
         it('should properly inherit from Error', () => {
             const error = new HonoActionError({
@@ -180,3 +228,117 @@ describe('HonoActionError', () => {
         })
     })
 })
+
+describe('createValidationError', () => {
+    it('should keep every issue and group the messages by field', () => {
+        const result = z
+            .object({
+                email: z.string().email(),
+                address: z.object({ city: z.string(), zip: z.string() }),
+            })
+            .safeParse({ email: 'nope', address: { city: 1 } })
+
+        const error = createValidationError(result.error?.issues ?? [])
+
+        expect(error.code).toBe('INPUT_VALIDATION_ERROR')
+        expect(error.message).toBe('Invalid email')
+        expect(error.issues).toHaveLength(3)
+        expect(error.issue).toBe(error.issues[0])
+        expect(error.fieldErrors).toEqual({
+            email: ['Invalid email'],
+            'address.city': ['Expected string, received number'],
+            'address.zip': ['Required'],
+        })
+    })
+
+    it('should leave issues without a path out of the field errors', () => {
+        const error = createValidationError(
+            [
+                { message: 'Passwords do not match', path: [] },
+                { message: 'Too short', path: ['password'] },
+            ],
+            'Invalid password',
+        )
+
+        expect(error.message).toBe('Invalid password')
+        expect(error.issues).toHaveLength(2)
+        expect(error.fieldErrors).toEqual({ password: ['Too short'] })
+    })
+
+    it('should fall back to a generic message without issues', () => {
+        expect(createValidationError([])).toEqual({
+            message: 'Validation error',
+            code: 'INPUT_VALIDATION_ERROR',
+            status: 400,
+            issue: undefined,
+            issues: [],
+            fieldErrors: {},
+        })
+    })
+})
+
+describe('toHonoActionError', () => {
+    it('should rebuild the code, status and issue of an error payload', () => {
+        const error = toHonoActionError({
+            message: 'Not found',
+            code: 'NOT_FOUND',
+            status: 404,
+            issue: { id: 1 },
+        })
+
+        expect(error).toBeInstanceOf(HonoActionError)
+        expect(error.message).toBe('Not found')
+        expect(error.code).toBe('NOT_FOUND')
+        expect(error.status).toBe(404)
+        expect(error.issue).toEqual({ id: 1 })
+    })
+
+    it('should keep every issue of a validation error', () => {
+        const payload = createValidationError([
+            { message: 'Required', path: ['email'] },
+            { message: 'Too short', path: ['password'] },
+        ])
+
+        const error = toHonoActionError(payload)
+
+        expect(error.code).toBe('INPUT_VALIDATION_ERROR')
+        expect(error.status).toBe(400)
+        expect(error.issue).toEqual(payload.issues)
+    })
+
+    it('should fall back to the status of the code without one', () => {
+        const error = toHonoActionError({
+            message: 'Slow down',
+            code: 'RATE_LIMITED',
+        } as Parameters<typeof toHonoActionError>[0])
+
+        expect(error.status).toBe(429)
+    })
+})
+
+describe('isHonoActionError', () => {
+    it('should match action errors', () => {
+        expect(
+            isHonoActionError(
+                new HonoActionError({ message: 'No', code: 'FORBIDDEN' }),
+            ),
+        ).toBe(true)
+    })
+
+    it('should match action errors of another copy of the package', () => {
+        const error = Object.assign(new Error('No'), {
+            name: 'HonoActionError',
+            code: 'FORBIDDEN',
+        })
+
+        expect(isHonoActionError(error)).toBe(true)
+    })
+
+    it('should not match other values', () => {
+        expect(isHonoActionError(new Error('No'))).toBe(false)
+        expect(isHonoActionError({ message: 'No', code: 'FORBIDDEN' })).toBe(
+            false,
+        )
+        expect(isHonoActionError(undefined)).toBe(false)
+    })
+})
@@ -0,0 +1,65 @@
+import { z } from 'astro/zod'
+import { describe, expect, it } from 'vitest'
+import { fileSchema } from '../src/lib/file'
+
+describe('fileSchema', () => {
+    const avatar = new File(['x'.repeat(2048)], 'avatar.png', {
+        type: 'image/png',
+    })
+
+    it('should accept a file within the limits', () => {
+        const schema = z.object({
+            avatar: fileSchema({ maxSize: 4096, accept: 'image/*' }),
+        })
+
+        const result = schema.safeParse({ avatar })
+        expect(result.success).toBe(true)
+        expect(result.data?.avatar).toBe(avatar)
+    })
+
+    it('should reject values that are not files', () => {
+        const schema = z.object({ avatar: fileSchema() })
+
+        const result = schema.safeParse({ avatar: 'avatar.png' })
+        expect(result.success).toBe(false)
+        expect(result.error?.issues[0]?.message).toBe('avatar must be a file')
+        expect(result.error?.issues[0]?.path).toEqual(['avatar'])
+    })
+
+    it('should reject files that are too large', () => {
+        const schema = z.object({ avatar: fileSchema({ maxSize: 1024 }) })
+
+        const result = schema.safeParse({ avatar })
+        expect(result.success).toBe(false)
+        expect(result.error?.issues[0]?.message).toBe(
+            'avatar must be at most 1 KB, got 2 KB',
+        )
+    })
+
+    it('should match MIME types, wildcards and extensions', () => {
+        const csv = new File(['a,b'], 'import.CSV', { type: '' })
+
+        expect(
+            fileSchema({ accept: 'image/png' }).safeParse(avatar).success,
+        ).toBe(true)
+        expect(
+            fileSchema({ accept: 'image/*' }).safeParse(avatar).success,
+        ).toBe(true)
+        expect(fileSchema({ accept: '.csv' }).safeParse(csv).success).toBe(true)
+        expect(
+            fileSchema({ accept: 'text/csv, .csv' }).safeParse(csv).success,
+        ).toBe(true)
+    })
+
+    it('should reject files with a type that is not accepted', () => {
+        const schema = z.object({
+            documents: z.array(fileSchema({ accept: ['application/pdf'] })),
+        })
+
+        const result = schema.safeParse({ documents: [avatar] })
+        expect(result.success).toBe(false)
+        expect(result.error?.issues[0]?.message).toBe(
+            'documents.0 must be of type application/pdf, got image/png',
+        )
+    })
+})
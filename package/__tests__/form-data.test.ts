@@ -0,0 +1,135 @@
+import { z } from 'astro/zod'
+import { describe, expect, it } from 'vitest'
+import { formValuesToObject } from '../src/lib/form-data'
+
+describe('formValuesToObject', () => {
+    it('should keep values as is without a schema', () => {
+        expect(formValuesToObject({ name: 'John', tags: ['a', 'b'] })).toEqual({
+            name: 'John',
+            tags: ['a', 'b'],
+        })
+    })
+
+    it('should build nested objects from dot separated names', () => {
+        expect(
+            formValuesToObject({
+                'address.city': 'Berlin',
+                'address.geo.lat': '52.5',
+                name: 'John',
+            }),
+        ).toEqual({
+            address: { city: 'Berlin', geo: { lat: '52.5' } },
+            name: 'John',
+        })
+    })
+
+    it('should strip the [] suffix and always create an array', () => {
+        expect(formValuesToObject({ 'tags[]': 'a' })).toEqual({ tags: ['a'] })
+    })
+
+    it('should coerce values into the schema', () => {
+        const schema = z.object({
+            name: z.string(),
+            age: z.number(),
+            subscribed: z.boolean(),
+            terms: z.boolean(),
+            birthday: z.date(),
+            tags: z.array(z.string()),
+            scores: z.array(z.number()),
+            address: z.object({
+                city: z.string(),
+                zip: z.number().optional(),
+            }),
+        })
+
+        const result = formValuesToObject(
+            {
+                name: 'John',
+                age: '30',
+                subscribed: 'on',
+                birthday: '2000-01-01',
+                tags: 'single',
+                scores: ['1', '2'],
+                'address.city': 'Berlin',
+                'address.zip': '',
+            },
+            schema,
+        )
+
+        expect(result).toEqual({
+            name: 'John',
+            age: 30,
+            subscribed: true,
+            terms: false,
+            birthday: new Date('2000-01-01'),
+            tags: ['single'],
+            scores: [1, 2],
+            address: { city: 'Berlin' },
+        })
+        expect(schema.safeParse(result).success).toBe(true)
+    })
+
+    it('should unwrap optional, default and refined schemas', () => {
+        const schema = z.object({
+            count: z.number().optional(),
+            page: z.number().default(1),
+            even: z.number().refine((n) => n % 2 === 0),
+            ids: z.array(z.number()).nullable(),
+        })
+
+        expect(
+            formValuesToObject(
+                { count: '', page: '3', even: '4', ids: '7' },
+                schema,
+            ),
+        ).toEqual({ page: 3, even: 4, ids: [7] })
+    })
+
+    it('should leave invalid numbers for the schema to reject', () => {
+        const schema = z.object({ age: z.number() })
+        const result = formValuesToObject({ age: 'abc' }, schema)
+
+        expect(result.age).toBeNaN()
+        expect(schema.safeParse(result).success).toBe(false)
+    })
+
+    it('should keep empty strings for string fields', () => {
+        const schema = z.object({ note: z.string() })
+
+        expect(formValuesToObject({ note: '' }, schema)).toEqual({ note: '' })
+    })
+
+    it('should only treat missing required booleans as unchecked checkboxes', () => {
+        const schema = z.object({
+            terms: z.boolean(),
+            archived: z.boolean().optional(),
+            notify: z.boolean().default(true),
+        })
+
+        expect(formValuesToObject({}, schema)).toEqual({ terms: false })
+        expect(schema.parse(formValuesToObject({}, schema))).toEqual({
+            terms: false,
+            notify: true,
+        })
+    })
+
+    it('should leave missing booleans out of query values', () => {
+        const schema = z.object({ terms: z.boolean() })
+
+        expect(formValuesToObject({}, schema, 'query')).toEqual({})
+    })
+
+    it('should ignore names that reach the prototype', () => {
+        const result = formValuesToObject({
+            '__proto__.polluted': 'yes',
+            'constructor.prototype.polluted': 'yes',
+            'a.__proto__.polluted': 'yes',
+            ['__proto__']: 'yes',
+            name: 'John',
+        })
+
+        expect(result).toEqual({ name: 'John' })
+        expect(Object.getPrototypeOf(result)).toBe(Object.prototype)
+        expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+    })
+})
@@ -1,8 +1,10 @@
 import { describe, expect, it } from 'vitest'
 import {
+    generateActionsModule,
     generateAstroHandler,
     generateHonoClient,
     generateRouter,
+    generateSchemasModule,
 } from '../src/integration-files'
 
 describe('Integration Files', () => {
@@ -39,7 +41,7 @@ describe('Integration Files', () => {
             })
 
             expect(routerContent).toContain(
-                "import type { HonoEnv, MergeActionKeyIntoPath } from '@gnosticdev/hono-actions/actions'",
+                "import type { ExtractActionsSchema, HonoEnv, MergeActionKeyIntoPath } from '@gnosticdev/hono-actions/actions'",
             )
             expect(routerContent).toContain("import { Hono } from 'hono'")
             expect(routerContent).toContain("import { cors } from 'hono/cors'")
@@ -52,6 +54,9 @@ describe('Integration Files', () => {
             expect(routerContent).toContain(
                 "import { prettyJSON } from 'hono/pretty-json'",
             )
+            expect(routerContent).toContain(
+                "import { astroContext, formActions, mountActions } from '@gnosticdev/hono-actions/actions'",
+            )
         })
 
         it('should include middleware setup', () => {
@@ -63,20 +68,91 @@ describe('Integration Files', () => {
             expect(routerContent).toContain(
                 "app.use('*', cors(), logger(), prettyJSON())",
             )
+            expect(routerContent).toContain("app.use('*', astroContext())")
+            expect(routerContent).toContain("app.use('*', formActions('/api'))")
         })
 
-        it('should include action routing logic', () => {
+        it('should pass the cors options', () => {
+            const routerContent = generateRouter({
+                basePath: '/api',
+                relativeActionsPath: '../actions',
+                middleware: {
+                    cors: {
+                        origin: ['https://example.com'],
+                        credentials: true,
+                    },
+                },
+            })
+
+            expect(routerContent).toContain(
+                `app.use('*', cors({"origin":["https://example.com"],"credentials":true}), logger(), prettyJSON())`,
+            )
+        })
+
+        it('should leave out disabled middleware', () => {
+            const routerContent = generateRouter({
+                basePath: '/api',
+                relativeActionsPath: '../actions',
+                middleware: { cors: false, logger: false, prettyJSON: false },
+            })
+
+            expect(routerContent).not.toContain('hono/cors')
+            expect(routerContent).not.toContain('hono/logger')
+            expect(routerContent).not.toContain('hono/pretty-json')
+            expect(routerContent).toContain("app.use('*', astroContext())")
+            expect(routerContent).not.toContain("app.use('*', cors")
+        })
+
+        it('should only pretty print JSON in dev', () => {
+            const routerContent = generateRouter({
+                basePath: '/api',
+                relativeActionsPath: '../actions',
+                middleware: { prettyJSON: 'dev' },
+            })
+
+            expect(routerContent).toContain("app.use('*', cors(), logger())")
+            expect(routerContent).toContain(`if (import.meta.env.DEV) {
+        app.use('*', prettyJSON())
+    }`)
+        })
+
+        it('should log to the sink module', () => {
             const routerContent = generateRouter({
                 basePath: '/api',
                 relativeActionsPath: '../actions',
+                middleware: { logger: { sink: '../../../src/log.ts' } },
             })
 
             expect(routerContent).toContain(
-                'for (const [routeName, action] of Object.entries(honoActions))',
+                "import loggerSink from '../../../src/log.ts'",
             )
+            expect(routerContent).toContain('logger(loggerSink)')
+        })
+
+        it('should register the middleware of the user module last', () => {
+            const routerContent = generateRouter({
+                basePath: '/api',
+                relativeActionsPath: '../actions',
+                middleware: { middlewarePath: '../../../src/middleware.ts' },
+            })
+
             expect(routerContent).toContain(
-                'app.route(`/${routeName}`, action)',
+                "import userMiddleware from '../../../src/middleware.ts'",
             )
+            expect(
+                routerContent.indexOf(
+                    "app.use('*', ...[userMiddleware].flat())",
+                ),
+            ).toBeGreaterThan(routerContent.indexOf('prettyJSON())'))
+        })
+
+        it('should include action routing logic', () => {
+            const routerContent = generateRouter({
+                basePath: '/api',
+                relativeActionsPath: '../actions',
+            })
+
+            expect(routerContent).toContain('mountActions(app, honoActions)')
         })
 
         it('should include type definitions', () => {
@@ -89,7 +165,7 @@ describe('Integration Files', () => {
                 `type ActionsWithKeyedPaths = MergeActionKeyIntoPath<typeof honoActions>`,
             )
             expect(routerContent).toContain(
-                'type ActionSchema = ExtractSchema<ActionsWithKeyedPaths[keyof ActionsWithKeyedPaths]>',
+                'type ActionSchema = ExtractActionsSchema<ActionsWithKeyedPaths>',
             )
             expect(routerContent).toContain(
                 'export type HonoRouter = Awaited<ReturnType<typeof buildRouter>>',
@@ -107,6 +183,78 @@ describe('Integration Files', () => {
         })
     })
 
+    describe('generateActionsModule', () => {
+        it('should import each file and key it by its route', () => {
+            const content = generateActionsModule({
+                actionFiles: [
+                    'billing/createInvoice.ts',
+                    'billing/refunds/issue.mts',
+                    'hello.ts',
+                ],
+                relativeActionsDir: '../../../src/actions',
+            })
+
+            expect(content).toContain(
+                "import action0 from '../../../src/actions/billing/createInvoice'",
+            )
+            expect(content).toContain(
+                "import action1 from '../../../src/actions/billing/refunds/issue'",
+            )
+            expect(content).toContain(
+                "import action2 from '../../../src/actions/hello'",
+            )
+            expect(content).toContain(`export const honoActions = {
+    "billing": {
+        "createInvoice": action0,
+        "refunds": {
+            "issue": action1,
+        },
+    },
+    "hello": action2,
+} satisfies HonoActions`)
+        })
+
+        it('should generate an empty module without files', () => {
+            const content = generateActionsModule({
+                actionFiles: [],
+                relativeActionsDir: '../src/actions',
+            })
+
+            expect(content).toContain(
+                'export const honoActions = {} satisfies HonoActions',
+            )
+        })
+
+        it('should key files named like Object.prototype members', () => {
+            const content = generateActionsModule({
+                actionFiles: ['constructor.ts', 'toString/list.ts'],
+                relativeActionsDir: '../src/actions',
+            })
+
+            expect(content).toContain(`export const honoActions = {
+    "constructor": action0,
+    "toString": {
+        "list": action1,
+    },
+} satisfies HonoActions`)
+        })
+
+        it('should throw when a file and a folder have the same route', () => {
+            expect(() =>
+                generateActionsModule({
+                    actionFiles: ['billing.ts', 'billing/createInvoice.ts'],
+                    relativeActionsDir: '../src/actions',
+                }),
+            ).toThrow('billing/createInvoice.ts is inside billing')
+            expect(() =>
+                generateActionsModule({
+                    actionFiles: ['hello.js', 'hello.ts'],
+                    relativeActionsDir: '../src/actions',
+                }),
+            ).toThrow('hello.ts has the same route')
+        })
+    })
+
     describe('getAstroHandler', () => {
         it('should generate cloudflare handler', () => {
             const handlerContent = generateAstroHandler('@astrojs/cloudflare')
@@ -128,10 +276,94 @@ describe('Integration Files', () => {
             expect(handlerContent).toContain('export { handler as ALL }')
         })
 
-        it('should throw error for unsupported adapter', () => {
-            expect(() => generateAstroHandler('unsupported' as any)).toThrow(
-                'Unsupported adapter: unsupported',
+        it('should forward astro locals and context for every adapter', () => {
+            for (const adapter of ['@astrojs/cloudflare', 'unsupported']) {
+                const handlerContent = generateAstroHandler(adapter)
+
+                expect(handlerContent).toContain('ASTRO_LOCALS: ctx.locals,')
+                expect(handlerContent).toContain('ASTRO_CONTEXT: ctx,')
+            }
+        })
+
+        it('should generate node handler', () => {
+            const handlerContent = generateAstroHandler('@astrojs/node')
+
+            expect(handlerContent).toContain("import router from './router.js'")
+            expect(handlerContent).toContain(
+                'const handler: APIRoute<APIContext> = async (ctx) =>',
+            )
+            expect(handlerContent).toContain('ctx.request,')
+            expect(handlerContent).toContain('...process.env,')
+            expect(handlerContent).not.toContain('ctx.locals.runtime')
+            expect(handlerContent).toContain('export { handler as ALL }')
+        })
+
+        it.each([
+            '@astrojs/vercel',
+            '@astrojs/vercel/serverless',
+            '@astrojs/vercel/edge',
+        ] as const)('should generate vercel handler for %s', (adapter) => {
+            const handlerContent = generateAstroHandler(adapter)
+
+            expect(handlerContent).toContain("import router from './router.js'")
+            expect(handlerContent).toContain(
+                "Symbol.for('@vercel/request-context')",
+            )
+            expect(handlerContent).toContain(
+                '(globalThis as any)[VERCEL_REQUEST_CONTEXT]?.get?.()?.waitUntil?.(promise)',
+            )
+            expect(handlerContent).toContain('...process.env,')
+            expect(handlerContent).toContain('export { handler as ALL }')
+        })
+
+        it.each([
+            '@astrojs/netlify',
+            '@astrojs/netlify/functions',
+            '@astrojs/netlify/edge-functions',
+        ] as const)('should generate netlify handler for %s', (adapter) => {
+            const handlerContent = generateAstroHandler(adapter)
+
+            expect(handlerContent).toContain("import router from './router.js'")
+            expect(handlerContent).toContain(
+                'ctx.locals.netlify?.context.waitUntil(promise)',
+            )
+            expect(handlerContent).toContain('...Netlify.env.toObject(),')
+            expect(handlerContent).not.toContain('process.env')
+            expect(handlerContent).toContain('export { handler as ALL }')
+        })
+
+        it('should fall back to the generic handler for unknown adapters', () => {
+            const handlerContent = generateAstroHandler('unsupported')
+
+            expect(handlerContent).toContain('// Adapter: unsupported')
+            expect(handlerContent).toContain('return router.fetch(')
+            expect(handlerContent).toContain('...globalThis.process?.env,')
+            expect(handlerContent).toContain('export { handler as ALL }')
+        })
+
+        it('should use a custom handler template', () => {
+            const handlerContent = generateAstroHandler('my-adapter', {
+                setup: "import { getEnv } from 'my-adapter/runtime'",
+                env: 'getEnv(ctx)',
+                executionCtx: 'ctx.locals.platform.ctx',
+            })
+
+            expect(handlerContent).toContain(
+                "import { getEnv } from 'my-adapter/runtime'",
+            )
+            expect(handlerContent).toContain('...getEnv(ctx),')
+            expect(handlerContent).toContain('ctx.locals.platform.ctx,')
+        })
+
+        it('should prefer a custom template over the built-in one', () => {
+            const handlerContent = generateAstroHandler('@astrojs/cloudflare', {
+                env: '{ ...ctx.locals.runtime.env, EXTRA: true }',
+            })
+
+            expect(handlerContent).toContain(
+                '...{ ...ctx.locals.runtime.env, EXTRA: true },',
             )
+            expect(handlerContent).not.toContain('ctx.locals.runtime.ctx')
         })
 
         it('should include proper TypeScript types', () => {
@@ -162,10 +394,129 @@ describe('Integration Files', () => {
                 "import { hc, parseResponse } from 'hono/client'",
             )
             expect(clientContent).toContain('function getBaseUrl()')
-            expect(clientContent).toContain('export { parseResponse, hc }')
+            expect(clientContent).toContain(`import {
+    createActionsProxy,
+    FORM_ACTION_PARAM,
+    HonoActionError,
+    isHonoActionError,
+    readActionStream,
+    toHonoActionError,
+} from '@gnosticdev/hono-actions/client-runtime'`)
+            expect(clientContent).toContain(`export {
+    parseResponse,
+    hc,
+    readActionStream,
+    HonoActionError,
+    isHonoActionError,
+    toHonoActionError,
+}`)
+            expect(clientContent).toContain(
+                'export const honoClient = createHonoClient()',
+            )
+        })
+
+        it('should create clients with the router types', () => {
+            const clientContent = generateHonoClient(3000)
+
+            expect(clientContent).toContain(
+                'export function createHonoClient({',
+            )
+            expect(clientContent).toContain('baseUrl = getBaseUrl(),')
+            expect(clientContent).toContain('return hc<HonoRouter>(baseUrl, {')
+            expect(clientContent).toContain(
+                'export type HonoClientOptions = ClientRequestOptions & {',
+            )
+        })
+
+        it('should export the actions proxy under the base path', () => {
+            const clientContent = generateHonoClient(3000)
+
+            expect(clientContent).toContain(
+                'export const createActions = (client: typeof honoClient = honoClient) =>',
+            )
+            expect(clientContent).toContain('createActionsProxy(client["api"])')
+            expect(clientContent).toContain(
+                'export const actions = createActions()',
+            )
+        })
+
+        it('should export the form action URLs under the base path', () => {
+            const clientContent = generateHonoClient(3000, {}, '/api/v1')
+
+            expect(clientContent).toContain(
+                'export const formAction = (action: FormActionPath) =>',
+            )
+            expect(clientContent).toContain(
+                '`/api/v1/${action}?${FORM_ACTION_PARAM}`',
+            )
+            expect(clientContent).toContain(
+                'TPath extends `/api/v1/${infer TAction}`',
+            )
+        })
+
+        it('should pass the GET actions to the actions proxy', () => {
+            const clientContent = generateHonoClient(3000, {}, '/api', [
+                'search',
+                'billing/listInvoices',
+            ])
+
+            expect(clientContent).toContain(`createActionsProxy(client["api"], {
+        getActions: ["search","billing/listInvoices"],
+    })`)
+        })
+
+        it('should strip a nested base path from the actions proxy', () => {
+            const clientContent = generateHonoClient(3000, {}, '/api/v1')
+
+            expect(clientContent).toContain(
+                'createActionsProxy(client["api"]["v1"])',
+            )
+        })
+
+        it('should pass the serialization of the client option to the actions proxy', () => {
+            const clientContent = generateHonoClient(3000, {
+                serialization: 'devalue',
+            })
+
+            expect(clientContent).toContain(`createActionsProxy(client["api"], {
+        serialization: 'devalue',
+    })`)
+        })
+
+        it('should validate with the schemas module when the client option asks for it', () => {
+            const clientContent = generateHonoClient(3000, { validate: true })
+
+            expect(clientContent).toContain(
+                "import * as schemas from './schemas.js'",
+            )
+            expect(clientContent).toContain(`createActionsProxy(client["api"], {
+        schemas,
+    })`)
+            expect(generateHonoClient(3000)).not.toContain('schemas')
+        })
+
+        it('should use the base URL of the client option', () => {
+            const clientContent = generateHonoClient(3000, {
+                baseUrl: 'https://api.example.com',
+            })
+
+            expect(clientContent).toContain('return "https://api.example.com"')
+            expect(clientContent).not.toContain('http://localhost')
+            expect(clientContent).not.toContain('import.meta.env.SITE')
+        })
+
+        it('should send the default headers of the client option', () => {
+            const clientContent = generateHonoClient(3000, {
+                headers: { 'x-api-version': '2' },
+            })
+
             expect(clientContent).toContain(
-                'export const honoClient = hc<HonoRouter>(getBaseUrl())',
+                'const DEFAULT_HEADERS: Record<string, string> = {"x-api-version":"2"}',
             )
+            expect(clientContent).toContain(`headers: async () => ({
+            ...DEFAULT_HEADERS,
+            ...(typeof headers === 'function' ? await headers() : headers),
+        }),`)
         })
 
         it('should generate client with custom port', () => {
@@ -218,6 +569,21 @@ describe('Integration Files', () => {
         })
     })
 
+    describe('generateSchemasModule', () => {
+        it('should re-export the schemas module', () => {
+            expect(
+                generateSchemasModule('../../../src/server/schemas'),
+            ).toContain("export * from '../../../src/server/schemas'")
+        })
+
+        it('should export nothing without a schemas module', () => {
+            const content = generateSchemasModule()
+
+            expect(content).toContain('export {}')
+            expect(content).not.toContain('export *')
+        })
+    })
+
     describe('integration consistency', () => {
         it('should generate consistent router and client imports', () => {
             const routerContent = generateRouter({
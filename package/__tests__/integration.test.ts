@@ -1,5 +1,13 @@
 import { z } from 'astro/zod'
-import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+    afterEach,
+    beforeEach,
+    describe,
+    expect,
+    expectTypeOf,
+    it,
+    vi,
+} from 'vitest'
 import { Hono } from 'hono'
 import { showRoutes } from 'hono/dev'
 import { HonoBase } from 'hono/hono-base'
@@ -13,18 +21,22 @@ import path from 'node:path'
 import { glob } from 'tinyglobby'
 import {
     defineHonoAction,
+    type ExtractActionsSchema,
     HonoActionError,
     type HonoEnv,
     type MergeActionKeyIntoPath,
+    mountActions,
 } from '../src/actions'
 import {
     VIRTUAL_MODULE_ID_CLIENT,
     VIRTUAL_MODULE_ID_ROUTER,
+    VIRTUAL_MODULE_ID_SERVER,
 } from '../src/integration'
 import {
     generateAstroHandler,
     generateHonoClient,
     generateRouter,
+    generateServerClient,
 } from '../src/integration-files'
 
 describe('Integration Tests', () => {
@@ -172,10 +184,12 @@ describe('Integration Tests', () => {
             expect(handlerContent).toContain('export { handler as ALL }')
         })
 
-        it('should include proper error handling for unsupported adapters', () => {
-            expect(() => generateAstroHandler('unsupported' as any)).toThrow(
-                'Unsupported adapter: unsupported',
-            )
+        it('should generate a generic handler for unsupported adapters', () => {
+            const handlerContent = generateAstroHandler('unsupported')
+
+            expect(handlerContent).toContain('router.fetch')
+            expect(handlerContent).toContain('ASTRO_LOCALS: ctx.locals')
+            expect(handlerContent).not.toContain('executionCtx')
         })
     })
 
@@ -185,6 +199,9 @@ describe('Integration Tests', () => {
                 '@gnosticdev/hono-actions/client',
             )
             expect(VIRTUAL_MODULE_ID_ROUTER).toBe('virtual:hono-actions/router')
+            expect(VIRTUAL_MODULE_ID_SERVER).toBe(
+                '@gnosticdev/hono-actions/server',
+            )
         })
 
         it('should have valid virtual import ID formats', () => {
@@ -203,7 +220,7 @@ describe('Integration Tests', () => {
 
             expect(routerContent).toContain('type ActionSchema')
             expect(routerContent).toContain('HonoRouter')
-            expect(routerContent).toContain('ExtractSchema')
+            expect(routerContent).toContain('ExtractActionsSchema')
         })
     })
 
@@ -332,6 +349,148 @@ describe('Integration Tests', () => {
         })
     })
 
+    describe('Nested action groups', () => {
+        const nestedActions = {
+            ping: defineHonoAction({ handler: async () => 'pong' }),
+            billing: {
+                createInvoice: defineHonoAction({
+                    schema: z.object({ amount: z.number() }),
+                    handler: async ({ amount }) => ({ invoice: 1, amount }),
+                }),
+                refunds: {
+                    create: defineHonoAction({
+                        schema: z.object({ invoice: z.number() }),
+                        handler: async ({ invoice }) => ({ refunded: invoice }),
+                    }),
+                },
+            },
+        }
+
+        type NestedActions = MergeActionKeyIntoPath<typeof nestedActions>
+
+        // same pattern as the generated router
+        const app = mountActions(
+            new Hono<
+                HonoEnv,
+                MergeSchemaPath<ExtractActionsSchema<NestedActions>, '/api'>
+            >().basePath('/api'),
+            nestedActions,
+        )
+        const client = testClient(app)
+
+        it('should mount the actions of a group under its key', () => {
+            expect(app.routes.map((route) => route.path)).toEqual(
+                expect.arrayContaining([
+                    '/api/ping',
+                    '/api/billing/createInvoice',
+                    '/api/billing/refunds/create',
+                ]),
+            )
+        })
+
+        it('should expose nested actions on the client', async () => {
+            const res = await client.api.billing.createInvoice.$post({
+                json: { amount: 42 },
+            })
+            expect(await res.json()).toEqual({
+                data: { invoice: 1, amount: 42 },
+                error: null,
+            })
+
+            const refund = await client.api.billing.refunds.create.$post({
+                json: { invoice: 1 },
+            })
+            expect((await refund.json()).data).toEqual({ refunded: 1 })
+
+            const ping = await client.api.ping.$post({ json: {} })
+            expect((await ping.json()).data).toBe('pong')
+        })
+
+        it('should merge the group keys into the paths', () => {
+            type CreateInvoice = NestedActions['billing']['createInvoice']
+            expectTypeOf<
+                keyof ExtractSchema<CreateInvoice>
+            >().toEqualTypeOf<'/billing/createInvoice'>()
+        })
+    })
+
+    describe('Server Client', () => {
+        let genDir: string
+
+        beforeEach(async () => {
+            // inside the package, so the generated files resolve hono
+            genDir = await fs.mkdtemp(path.join(__dirname, 'server-client-'))
+            const actionsPath = path
+                .relative(genDir, path.join(__dirname, '../src/actions'))
+                .split(path.sep)
+                .join('/')
+            await fs.writeFile(
+                path.join(genDir, 'router.ts'),
+                `import { Hono } from 'hono'
+import { astroContext, defineHonoAction } from '${actionsPath}'
+const app = new Hono().basePath('/api').use('*', astroContext()).route(
+    '/whoami',
+    defineHonoAction({
+        handler: async (_input, c) => ({
+            user: c.var.locals.user,
+            cookie: c.req.header('cookie'),
+            env: c.env.SERVER_CLIENT_TEST,
+        }),
+    }),
+)
+export type HonoRouter = typeof app
+export default app`,
+            )
+            await fs.writeFile(
+                path.join(genDir, 'server.ts'),
+                generateServerClient('@astrojs/node'),
+            )
+        })
+
+        afterEach(async () => {
+            await fs.rm(genDir, { recursive: true, force: true })
+        })
+
+        it('should call the router in-process with the Astro context', async () => {
+            process.env.SERVER_CLIENT_TEST = 'from env'
+            const fetchSpy = vi.spyOn(globalThis, 'fetch')
+            const { createServerClient } = await import(
+                path.join(genDir, 'server.ts')
+            )
+            const url = new URL('http://localhost:4321/account')
+            const client = createServerClient({
+                request: new Request(url, {
+                    headers: { cookie: 'session=abc' },
+                }),
+                url,
+                locals: { user: 'ada' },
+            })
+
+            const res = await client.api.whoami.$post({ json: {} })
+
+            expect(await res.json()).toEqual({
+                data: { user: 'ada', cookie: 'session=abc', env: 'from env' },
+                error: null,
+            })
+            expect(fetchSpy).not.toHaveBeenCalled()
+            fetchSpy.mockRestore()
+            delete process.env.SERVER_CLIENT_TEST
+        })
+
+        it('should build the env like the API handler', () => {
+            const serverContent = generateServerClient('@astrojs/cloudflare')
+
+            expect(serverContent).toContain(
+                'export function createServerClient(ctx: APIContext)',
+            )
+            expect(serverContent).toContain('hc<HonoRouter>(ctx.url.origin, {')
+            expect(serverContent).toContain('...ctx.locals.runtime.env,')
+            expect(serverContent).toContain('ASTRO_CONTEXT: ctx,')
+            expect(serverContent).toContain('ctx.locals.runtime.ctx,')
+            expect(serverContent).toContain('new Request(input, init),')
+        })
+    })
+
     describe('Error Handling Integration', () => {
         it('should handle validation errors in generated pattern', async () => {
             const app = new Hono<
@@ -394,6 +553,7 @@ describe('Integration Tests', () => {
             expect(json.error).toEqual({
                 code: 'UNKNOWN_ERROR',
                 message: 'Test error',
+                status: 500,
             })
         })
     })
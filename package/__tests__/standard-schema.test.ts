@@ -0,0 +1,81 @@
+import { z } from 'astro/zod'
+import * as v from 'valibot'
+import { describe, expect, it } from 'vitest'
+import { isZodSchema, validateSchema } from '../src/lib/standard-schema'
+
+describe('validateSchema', () => {
+    it('should return the parsed value of a zod schema', async () => {
+        const result = await validateSchema(
+            z.object({ age: z.string().transform(Number) }),
+            { age: '30' },
+        )
+
+        expect(result).toEqual({ success: true, data: { age: 30 } })
+    })
+
+    it('should return the parsed value of a valibot schema', async () => {
+        const result = await validateSchema(
+            v.object({ name: v.pipe(v.string(), v.trim()) }),
+            { name: ' John ', extra: true },
+        )
+
+        expect(result).toEqual({ success: true, data: { name: 'John' } })
+    })
+
+    it('should normalize zod issues', async () => {
+        const result = await validateSchema(
+            z.object({ address: z.object({ city: z.string() }) }),
+            { address: { city: 1 } },
+        )
+
+        expect(result).toEqual({
+            success: false,
+            issues: [
+                {
+                    code: 'invalid_type',
+                    message: 'Expected string, received number',
+                    path: ['address', 'city'],
+                },
+            ],
+        })
+    })
+
+    it('should normalize valibot issues', async () => {
+        const result = await validateSchema(
+            v.object({
+                tags: v.array(v.pipe(v.string(), v.maxLength(3, 'Too long'))),
+            }),
+            { tags: ['ok', 'too-long'] },
+        )
+
+        expect(result).toEqual({
+            success: false,
+            issues: [{ message: 'Too long', path: ['tags', 1] }],
+        })
+    })
+
+    it('should support async schemas', async () => {
+        const schema = v.pipeAsync(
+            v.string(),
+            v.checkAsync(async (value) => value !== 'taken', 'Taken'),
+        )
+
+        expect(await validateSchema(schema, 'free')).toEqual({
+            success: true,
+            data: 'free',
+        })
+        expect(await validateSchema(schema, 'taken')).toEqual({
+            success: false,
+            issues: [{ message: 'Taken', path: [] }],
+        })
+    })
+})
+
+describe('isZodSchema', () => {
+    it('should only match zod schemas', () => {
+        expect(isZodSchema(z.object({}))).toBe(true)
+        expect(isZodSchema(z.string().optional())).toBe(true)
+        expect(isZodSchema(v.object({}))).toBe(false)
+        expect(isZodSchema(undefined)).toBe(false)
+    })
+})
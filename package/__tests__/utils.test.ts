@@ -1,5 +1,9 @@
 import { describe, expect, it } from 'vitest'
-import { reservedRoutes } from '../src/lib/utils'
+import {
+    normalizeBasePath,
+    reservedRoutes,
+    validateBasePath,
+} from '../src/lib/utils'
 
 describe('Utils', () => {
     describe('reservedRoutes', () => {
@@ -40,4 +44,40 @@ describe('Utils', () => {
             expect(reservedRoutes).toEqual(expectedRoutes)
         })
     })
+
+    describe('normalizeBasePath', () => {
+        it.each([
+            ['/api', '/api'],
+            ['api', '/api'],
+            ['/api/', '/api'],
+            ['//api//v1/', '/api/v1'],
+            [' /api ', '/api'],
+            ['/', '/'],
+        ])('should normalize %s to %s', (basePath, expected) => {
+            expect(normalizeBasePath(basePath)).toBe(expected)
+        })
+    })
+
+    describe('validateBasePath', () => {
+        it('should accept a valid base path', () => {
+            expect(validateBasePath('/api')).toBeUndefined()
+            expect(validateBasePath('/api/v1')).toBeUndefined()
+        })
+
+        it('should reject reserved routes', () => {
+            expect(validateBasePath(normalizeBasePath('/_actions/'))).toBe(
+                'Base path /_actions is reserved by Astro; pick another (e.g. /api2).',
+            )
+            expect(validateBasePath('/_astro/api')).toContain('reserved')
+        })
+
+        it('should reject the root', () => {
+            expect(validateBasePath('/')).toContain('cannot be the root')
+        })
+
+        it('should reject segments that are not URL-safe', () => {
+            expect(validateBasePath('/my api')).toContain('not URL-safe')
+            expect(validateBasePath('/api/[version]')).toContain('not URL-safe')
+        })
+    })
 })
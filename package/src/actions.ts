@@ -1,20 +1,103 @@
-import { zValidator } from '@hono/zod-validator'
+import type { APIContext } from 'astro'
 import { z } from 'astro/zod'
-import type { Context } from 'hono'
+import * as devalue from 'devalue'
+import type { Context, MiddlewareHandler, TypedResponse } from 'hono'
 import { Hono } from 'hono'
+import { every } from 'hono/combine'
+import { createMiddleware } from 'hono/factory'
+import { streamSSE } from 'hono/streaming'
 import type { MergeSchemaPath } from 'hono/types'
-import { HonoActionError } from './error.js'
+import type { StatusCode } from 'hono/utils/http-status'
+import type { IsAny, JSONParsed, UnionToIntersection } from 'hono/utils/types'
+import { validator } from 'hono/validator'
+import {
+    type ActionError,
+    type ActionErrorStatus,
+    type ActionIssue,
+    type ActionValidationError,
+    createValidationError,
+    type FieldPath,
+    HonoActionError,
+} from './error.js'
+import {
+    type FormInput,
+    formValuesToObject,
+    type QueryInput,
+} from './lib/form-data.js'
+import { isFormActionRequest } from './lib/form-action.js'
+import {
+    isDevalue,
+    type RAW_DATA,
+    SERIALIZATION_HEADER,
+} from './lib/serialization.js'
+import {
+    type InferSchemaInput,
+    type InferSchemaOutput,
+    isZodSchema,
+    type StandardSchemaV1,
+    validateSchema,
+} from './lib/standard-schema.js'
 
-export { HonoActionError } from './error.js'
+export {
+    type ActionError,
+    type ActionErrorCode,
+    type ActionErrorCodes,
+    type ActionErrorPayload,
+    type ActionIssue,
+    type ActionValidationError,
+    HonoActionError,
+    isHonoActionError,
+    toHonoActionError,
+} from './error.js'
+export {
+    type ActionCallOptions,
+    type ActionCaller,
+    type ActionsProxy,
+    type ActionsProxyOptions,
+    createActionsProxy,
+    type SafeActionResult,
+} from './lib/actions-proxy.js'
+export { type FileSchemaOptions, fileSchema } from './lib/file.js'
+export {
+    FORM_ACTION_PARAM,
+    type FormActionResult,
+    formActions,
+    getFormActionResult,
+} from './lib/form-action.js'
+export {
+    type ActionSerialization,
+    SERIALIZATION_HEADER,
+} from './lib/serialization.js'
+export { type ActionStreamEvent, readActionStream } from './lib/sse.js'
 
 // Augmentable interface for environment bindings
 // Consumers can augment this via module augmentation to get strong typing for c.env
 
-// biome-ignore lint/suspicious/noEmptyInterface: added by user
 export interface Bindings {
     /** Cloudflare Bindings */
+
+    /**
+     * Astro request context, forwarded by the generated API handler.
+     * Read it from `c.var` instead, see {@link AstroVariables}
+     */
+    ASTRO_CONTEXT?: APIContext
+}
+
+/**
+ * Astro request context available on `c.var` inside actions
+ */
+export interface AstroVariables {
+    /** `Astro.locals` for the current request, e.g. values set by Astro middleware */
+    locals: APIContext['locals']
+    cookies: APIContext['cookies']
+    /** `undefined` when the adapter does not provide the client address */
+    clientAddress: string | undefined
+    url: APIContext['url']
+    redirect: APIContext['redirect']
 }
 
+export interface Variables extends AstroVariables, Record<string, unknown> {}
+
 /**
  * HonoEnv is passed to the Hono context to provide types on `ctx.env`.
  *
@@ -22,60 +105,553 @@ export interface Bindings {
  */
 export interface HonoEnv {
     Bindings: Bindings
-    Variables: Record<string, unknown>
+    Variables: Variables
+}
+
+/**
+ * Middleware that exposes the Astro request context forwarded by the generated API handler on `c.var`.
+ *
+ * Registered on the generated router, so every action can read `c.var.locals`, `c.var.cookies`, etc.
+ */
+export const astroContext = () =>
+    createMiddleware<HonoEnv>(async (c, next) => {
+        const ctx = c.env?.ASTRO_CONTEXT
+        if (ctx) {
+            c.set('locals', ctx.locals)
+            c.set('cookies', ctx.cookies)
+            c.set('url', ctx.url)
+            c.set('redirect', ctx.redirect)
+            c.set('clientAddress', getClientAddress(ctx))
+        }
+        await next()
+    })
+
+function getClientAddress(ctx: APIContext) {
+    try {
+        return ctx.clientAddress
+    } catch {
+        // astro throws when the adapter does not support it
+        return undefined
+    }
 }
 
-type HonoActionSchema = z.ZodTypeAny
+/**
+ * Any Standard Schema validator (Zod, Valibot, ArkType, ...)
+ */
+type HonoActionSchema = StandardSchemaV1
+
+/**
+ * The `honoActions` export of the actions file. Groups nest actions under their key, e.g. `{ billing: { createInvoice } }`
+ */
+export type HonoActions = {
+    [key: string]: Hono<any, any, any> | HonoActions
+}
 
 /**
  * Merge each action key into its route path.
  *
  * Given a map of actions where each `Hono` app defines handlers at `"/"`, this
- * transforms the schema so each action's path becomes `"/${key}"`.
+ * transforms the schema so each action's path becomes `"/${key}"`. Actions of a group
+ * get the key of the group as prefix: `"/${groupKey}/${key}"`.
  *
  * Example:
  * ```ts
  * const honoActions: {
  *   myAction: Hono<HonoEnv, { '/': { $post: any } }, '/'>
- *   anotherAction: Hono<HonoEnv, { '/': { $post: any } }, '/'>
+ *   billing: {
+ *     refund: Hono<HonoEnv, { '/': { $post: any } }, '/'>
+ *   }
  * }
  *
  * type ActionsWithKeyedPaths = MergeActionKeyIntoPath<typeof honoActions>
  * // => {
  * //   myAction: Hono<HonoEnv, { '/myAction': { $post: any } }, '/'>
- * //   anotherAction: Hono<HonoEnv, { '/anotherAction': { $post: any } }, '/'>
+ * //   billing: {
+ * //     refund: Hono<HonoEnv, { '/billing/refund': { $post: any } }, '/'>
+ * //   }
  * // }
  * ```
  */
 export type MergeActionKeyIntoPath<
-    TActions extends Record<string, Hono<any, any, any>>,
+    TActions extends HonoActions,
+    TPrefix extends string = '',
 > = {
     [K in keyof TActions]: TActions[K] extends Hono<
         infer TEnv,
         infer TSchema,
         infer TBase
     >
-        ? Hono<TEnv, MergeSchemaPath<TSchema, `/${Extract<K, string>}`>, TBase>
-        : never
+        ? Hono<
+              TEnv,
+              MergeSchemaPath<TSchema, `${TPrefix}/${Extract<K, string>}`>,
+              TBase
+          >
+        : TActions[K] extends HonoActions
+          ? MergeActionKeyIntoPath<
+                TActions[K],
+                `${TPrefix}/${Extract<K, string>}`
+            >
+          : never
 }
 
-type HonoActionParams<
+/**
+ * Union of the schemas of every action in the (nested) result of {@link MergeActionKeyIntoPath}
+ */
+export type ExtractActionsSchema<TActions> = {
+    [K in keyof TActions]: TActions[K] extends Hono<any, infer TSchema, any>
+        ? TSchema
+        : ExtractActionsSchema<TActions[K]>
+}[keyof TActions]
+
+/**
+ * Mounts each action at `/${key}`, the actions of a group at `/${groupKey}/${key}`
+ *
+ * @param app - The app to mount the actions on
+ * @param actions - The `honoActions` export of the actions file
+ */
+export function mountActions<TApp extends Hono<any, any, any>>(
+    app: TApp,
+    actions: HonoActions,
+    prefix = '',
+): TApp {
+    for (const [routeName, action] of Object.entries(actions)) {
+        const path = `${prefix}/${routeName}`
+        if (isHonoApp(action)) {
+            app.route(path, action)
+        } else {
+            mountActions(app, action, path)
+        }
+    }
+    return app
+}
+
+// duck typed, the actions may use another copy of hono than the router
+function isHonoApp(
+    action: Hono<any, any, any> | HonoActions,
+): action is Hono<any, any, any> {
+    return typeof action.fetch === 'function'
+}
+
+/**
+ * How an action reads its input from the request body
+ *
+ * - `json`: `application/json` bodies
+ * - `form`: `multipart/form-data` and `application/x-www-form-urlencoded` bodies, e.g. from a plain HTML `<form>`
+ * - `auto`: `form` or `json` depending on the `Content-Type` of the request
+ */
+export type ActionInputMode = 'json' | 'form' | 'auto'
+
+/**
+ * HTTP method of an action
+ *
+ * - `POST`: input is read from the request body, see {@link ActionInputMode}
+ * - `GET`: input is read from the query string, so responses can be cached by the browser or a CDN
+ */
+export type ActionMethod = 'GET' | 'POST'
+
+const EMPTY_SCHEMA = z.object({})
+
+// input of `schema ?? EMPTY_SCHEMA`, same as the validator infers at runtime
+type SchemaInput<TSchema extends HonoActionSchema> = InferSchemaInput<
+    TSchema | typeof EMPTY_SCHEMA
+>
+type JsonInput<TSchema extends HonoActionSchema> = {
+    json: SchemaInput<TSchema>
+}
+type FormDataInput<TSchema extends HonoActionSchema> = {
+    form: FormInput<SchemaInput<TSchema>>
+}
+type QueryStringInput<TSchema extends HonoActionSchema> = {
+    query: QueryInput<SchemaInput<TSchema>>
+}
+
+/**
+ * Validated input of an action, `in` is what the hono client sends for each method and input mode
+ */
+type ActionInput<
     TSchema extends HonoActionSchema,
+    TMethod extends ActionMethod,
+    TInput extends ActionInputMode,
+> = {
+    in: TMethod extends 'GET'
+        ? QueryStringInput<TSchema>
+        : TInput extends 'form'
+          ? FormDataInput<TSchema>
+          : TInput extends 'auto'
+            ? JsonInput<TSchema> | FormDataInput<TSchema>
+            : JsonInput<TSchema>
+    out: {
+        json: InferSchemaOutput<TSchema>
+        form: InferSchemaOutput<TSchema>
+        query: InferSchemaOutput<TSchema>
+    }
+}
+
+/**
+ * The data an action responds with, parsed by the `output` schema when there is one
+ */
+type ActionOutput<
+    TOutput extends HonoActionSchema | undefined,
     TReturn,
-    TEnv extends HonoEnv,
-    TContext extends Context<TEnv, any, any>,
+> = TOutput extends HonoActionSchema ? InferSchemaOutput<TOutput> : TReturn
+
+/**
+ * Any Hono middleware, e.g. created with `createMiddleware` from `hono/factory`
+ */
+type ActionMiddleware = MiddlewareHandler<any, any, any>
+
+/**
+ * Variables set with `c.set` by the middleware of an action, read from the `Variables` of their env
+ */
+type MiddlewareVariables<TMiddleware extends ActionMiddleware[]> =
+    UnionToIntersection<
+        {
+            [K in keyof TMiddleware]: TMiddleware[K] extends MiddlewareHandler<
+                infer TMiddlewareEnv,
+                any,
+                any
+            >
+                ? IsAny<TMiddlewareEnv> extends true
+                    ? never
+                    : TMiddlewareEnv extends { Variables: infer TVariables }
+                      ? TVariables
+                      : never
+                : never
+        }[number]
+    >
+
+/**
+ * Env of the handler context, the variables of the action middleware are added to the ones of `TEnv`
+ */
+type ActionEnv<TEnv extends HonoEnv, TMiddleware extends ActionMiddleware[]> = {
+    Bindings: TEnv['Bindings']
+    Variables: TEnv['Variables'] & MiddlewareVariables<TMiddleware>
+}
+
+/**
+ * Options shared by {@link defineHonoAction} and {@link defineHonoStreamAction}
+ */
+type ActionOptions<
+    TSchema extends HonoActionSchema,
+    TMethod extends ActionMethod,
+    TInput extends ActionInputMode,
+    TMiddleware extends ActionMiddleware[],
 > = {
     schema?: TSchema
+    /**
+     * Middleware that runs before the input is validated, in order. Variables they set with `c.set` are typed on the handler context.
+     */
+    middleware?: [...TMiddleware]
+    /**
+     * HTTP method of the action, `GET` actions validate the query string (coerced into the schema)
+     *
+     * @default 'POST'
+     */
+    method?: TMethod
+    /**
+     * How the input is read from the request body, form fields are coerced into the schema.
+     * Ignored for `GET` actions.
+     *
+     * @default 'json'
+     */
+    input?: TInput
+}
+
+type HonoActionParams<
+    TSchema extends HonoActionSchema,
+    TReturn,
+    TEnv extends HonoEnv,
+    TContext extends Context<ActionEnv<TEnv, TMiddleware>, any, any>,
+    TMethod extends ActionMethod,
+    TInput extends ActionInputMode,
+    TOutput extends HonoActionSchema | undefined,
+    TMiddleware extends ActionMiddleware[],
+> = ActionOptions<TSchema, TMethod, TInput, TMiddleware> & {
+    /**
+     * Schema for the value returned by the handler. The result is parsed before it is sent,
+     * so unknown fields (e.g. password hashes) are stripped when the schema strips them (the default for Zod and Valibot objects). A mismatch responds with an `INTERNAL_SERVER_ERROR`.
+     */
+    output?: TOutput
     handler: (
-        params: z.output<TSchema>,
+        params: InferSchemaOutput<TSchema>,
         context: TContext extends infer Ctx ? Ctx : never,
-    ) => Promise<TReturn>
+    ) => Promise<
+        TOutput extends HonoActionSchema ? InferSchemaInput<TOutput> : TReturn
+    >
+}
+
+type HonoStreamActionParams<
+    TSchema extends HonoActionSchema,
+    TEvent,
+    TEnv extends HonoEnv,
+    TContext extends Context<ActionEnv<TEnv, TMiddleware>, any, any>,
+    TMethod extends ActionMethod,
+    TInput extends ActionInputMode,
+    TMiddleware extends ActionMiddleware[],
+> = ActionOptions<TSchema, TMethod, TInput, TMiddleware> & {
+    /**
+     * Async generator, each yielded value is sent as an event
+     */
+    handler: (
+        params: InferSchemaOutput<TSchema>,
+        context: TContext extends infer Ctx ? Ctx : never,
+    ) => AsyncIterable<TEvent>
+}
+
+const FORM_CONTENT_TYPE =
+    /^(multipart\/form-data|application\/x-www-form-urlencoded)\b/
+
+/**
+ * Resolves the validation target for the request
+ */
+function getInputTarget(
+    method: ActionMethod,
+    input: ActionInputMode,
+    c: Context,
+) {
+    if (method === 'GET') {
+        return 'query'
+    }
+    if (input !== 'auto') {
+        return input
+    }
+    return FORM_CONTENT_TYPE.test(c.req.header('Content-Type') ?? '')
+        ? 'form'
+        : 'json'
+}
+
+/**
+ * Validates the request input against the schema, responding with an `INPUT_VALIDATION_ERROR` when it does not match.
+ */
+function inputValidator<TEnv extends HonoEnv>(
+    method: ActionMethod,
+    input: ActionInputMode,
+    schema: HonoActionSchema,
+): MiddlewareHandler<TEnv> {
+    const validate = async (value: unknown, c: Context) => {
+        const result = await validateSchema(schema, value)
+        if (!result.success) {
+            console.error(result.issues)
+            return c.json(
+                {
+                    data: null,
+                    error: createValidationError(result.issues),
+                },
+                400,
+            )
+        }
+        return result.data
+    }
+
+    const jsonValidator = validator('json', (value, c) => {
+        if (!isDevalue(c.req.raw.headers)) {
+            return validate(value, c)
+        }
+        let unflattened: unknown
+        try {
+            unflattened = devalue.unflatten(value)
+        } catch {
+            return c.json(
+                {
+                    data: null,
+                    error: createValidationError(
+                        [],
+                        'Malformed devalue body, send it with `devalue.stringify`',
+                    ),
+                },
+                400,
+            )
+        }
+        return validate(unflattened, c)
+    })
+    // only zod schemas describe how to coerce form values, other libraries receive strings
+    const coerceSchema = isZodSchema(schema) ? schema : undefined
+    const formValidator = validator('form', (value, c) =>
+        validate(formValuesToObject(value, coerceSchema), c),
+    )
+    const queryValidator = validator('query', (value, c) =>
+        validate(formValuesToObject(value, coerceSchema, 'query'), c),
+    )
+
+    return async (c, next) => {
+        switch (getInputTarget(method, input, c)) {
+            case 'query':
+                return queryValidator(c, next)
+            case 'form':
+                return formValidator(c, next)
+            default:
+                // JSON actions stay closed to plain HTML forms (and their cross-site posts), see `formActions`
+                if (isFormActionRequest(c)) {
+                    return c.json(
+                        {
+                            data: null,
+                            error: createValidationError(
+                                [],
+                                'This action does not accept form data, set its input to `form` or `auto`',
+                                415,
+                            ),
+                        },
+                        415,
+                    )
+                }
+                return jsonValidator(c, next)
+        }
+    }
+}
+
+/**
+ * Runs the middleware of an action, errors they throw are sent in the action error format
+ */
+function actionMiddleware<
+    TEnv extends HonoEnv,
+    TSchema extends HonoActionSchema,
+>(middleware: ActionMiddleware[]): MiddlewareHandler<TEnv> {
+    const run = every(...middleware)
+    return async (c, next) => {
+        try {
+            await run(c, next)
+        } catch (error) {
+            return errorResponse<TSchema>(c, error)
+        }
+    }
 }
 
 /**
- * Defines a type-safe Hono action using Zod for input validation.
+ * Responds with the thrown error, `HonoActionError`s keep their code, status and issue, anything else is an `INTERNAL_SERVER_ERROR`
+ */
+function errorResponse<TSchema extends HonoActionSchema>(
+    c: Context,
+    error: unknown,
+):
+    | JSONResponse<ValidationFailure<TSchema>, ActionErrorStatus>
+    | JSONResponse<ActionFailure<ActionError>, ActionErrorStatus> {
+    console.error(error)
+    const { error: actionError, status } = toActionError(error)
+
+    if (actionError.code === 'INPUT_VALIDATION_ERROR') {
+        const validationBody: ValidationFailure<TSchema> = {
+            data: null,
+            error: actionError,
+        }
+        return c.json(validationBody, status)
+    }
+    const body: ActionFailure<ActionError> = { data: null, error: actionError }
+    return c.json(body, status)
+}
+
+/**
+ * Responds with the data of the action, serialized with devalue when the request asks for it
+ */
+function successResponse<TData>(
+    c: Context,
+    data: TData,
+): SuccessResponse<TData> {
+    const body: ActionSuccess<TData> = { data, error: null }
+    // the body depends on the serialization header, e.g. for cached GET actions
+    c.header('Vary', SERIALIZATION_HEADER, { append: true })
+    if (isDevalue(c.req.raw.headers)) {
+        c.header(SERIALIZATION_HEADER, 'devalue')
+        return c.body(devalue.stringify(body), 200, {
+            'Content-Type': 'application/json',
+        }) as unknown as SuccessResponse<TData>
+    }
+    return c.json(body, 200) as unknown as SuccessResponse<TData>
+}
+
+/**
+ * The error payload and status sent for a thrown error
+ */
+function toActionError(error: unknown): {
+    error: ActionValidationError | ActionError
+    status: ActionErrorStatus
+} {
+    if (!(error instanceof HonoActionError)) {
+        return {
+            error: {
+                message: 'Internal server error',
+                code: 'INTERNAL_SERVER_ERROR',
+                status: 500,
+            },
+            status: 500,
+        }
+    }
+    if (error.code === 'INPUT_VALIDATION_ERROR') {
+        // same format as the input validator
+        const issues: ActionIssue[] =
+            error.issue === undefined ? [] : [error.issue].flat()
+        return {
+            error: createValidationError(issues, error.message, error.status),
+            status: error.status,
+        }
+    }
+    return {
+        error: {
+            message: error.message,
+            code: error.code,
+            status: error.status,
+            issue: error.issue,
+        },
+        status: error.status,
+    }
+}
+
+/**
+ * Parses the handler result with the output schema, the issues are only logged (not sent to the client)
+ */
+async function parseOutput<
+    TOutput extends HonoActionSchema | undefined,
+    TReturn,
+>(output: TOutput | undefined, result: unknown) {
+    if (!output) {
+        return result as ActionOutput<TOutput, TReturn>
+    }
+
+    const parsed = await validateSchema(output, result)
+    if (!parsed.success) {
+        console.error(parsed.issues)
+        throw new HonoActionError({
+            message: 'Invalid action output',
+            code: 'INTERNAL_SERVER_ERROR',
+        })
+    }
+    return parsed.data as ActionOutput<TOutput, TReturn>
+}
+
+type ActionSuccess<TData> = { data: TData; error: null }
+type ActionFailure<TError> = { data: null; error: TError }
+type ValidationFailure<TSchema extends HonoActionSchema> = ActionFailure<
+    ActionValidationError<FieldPath<InferSchemaInput<TSchema>>>
+>
+
+type JSONResponse<T, TStatus extends StatusCode> = Response &
+    TypedResponse<JSONParsed<T>, TStatus, 'json'>
+
+/**
+ * The success response also carries the type of the data before JSON serialization, for clients using devalue
+ */
+type SuccessResponse<TData> = Response &
+    TypedResponse<
+        JSONParsed<ActionSuccess<TData>> & { readonly [RAW_DATA]: TData },
+        200,
+        'json'
+    >
+
+/**
+ * Responses of an action, the validation error is sent by the input validator before the handler runs
+ */
+type ActionResponse<TData, TSchema extends HonoActionSchema> =
+    | SuccessResponse<TData>
+    | JSONResponse<ValidationFailure<TSchema>, ActionErrorStatus>
+    | JSONResponse<ActionFailure<ActionError>, ActionErrorStatus>
+
+/**
+ * Defines a type-safe Hono action using any Standard Schema library (Zod, Valibot, ArkType, ...) for input validation.
  *
- * @param schema - The Zod schema for validation (optional).
+ * @param schema - The schema for validation (optional).
+ * @param method - The HTTP method, `POST` (default) or `GET`.
+ * @param input - How the input is read from the request body: `json` (default), `form` or `auto`.
+ * @param output - The schema for the handler result (optional).
+ * @param middleware - Middleware that runs before validation, e.g. auth (optional).
  * @param handler - The handler function for the action.
  * @returns A Hono app instance with the defined route
  */
@@ -83,67 +659,168 @@ export function defineHonoAction<
     TEnv extends HonoEnv,
     TSchema extends HonoActionSchema,
     TReturn,
-    TContext extends Context<TEnv, any, any>,
->({ schema, handler }: HonoActionParams<TSchema, TReturn, TEnv, TContext>) {
+    TContext extends Context<ActionEnv<TEnv, TMiddleware>, any, any>,
+    TMethod extends ActionMethod = 'POST',
+    TInput extends ActionInputMode = 'json',
+    TOutput extends HonoActionSchema | undefined = undefined,
+    TMiddleware extends ActionMiddleware[] = ActionMiddleware[],
+>({
+    schema,
+    method = 'POST' as TMethod,
+    input = 'json' as TInput,
+    output,
+    middleware = [] as ActionMiddleware[] as TMiddleware,
+    handler,
+}: HonoActionParams<
+    TSchema,
+    TReturn,
+    TEnv,
+    TContext,
+    TMethod,
+    TInput,
+    TOutput,
+    TMiddleware
+>) {
     const app = new Hono<TEnv>()
 
-    const route = app.post(
+    const route = app.on(
+        method,
         '/',
-        zValidator('json', schema ?? z.object({}), async (result, c) => {
-            if (!result.success) {
-                console.error(result.error.issues)
-                const firstIssue = result.error.issues[0]
-                return c.json(
-                    {
-                        data: null,
-                        error: new HonoActionError({
-                            message: firstIssue?.message || 'Validation error',
-                            code: 'INPUT_VALIDATION_ERROR',
-                            issue: firstIssue,
-                        }),
-                    },
-                    400,
-                )
-            }
-        }),
-        async (c) => {
+        actionMiddleware<TEnv, TSchema>(middleware),
+        inputValidator<TEnv>(
+            method,
+            input,
+            schema ?? EMPTY_SCHEMA,
+        ) as MiddlewareHandler<
+            TEnv,
+            '/',
+            ActionInput<TSchema, TMethod, TInput>
+        >,
+        async (
+            c,
+        ): Promise<ActionResponse<ActionOutput<TOutput, TReturn>, TSchema>> => {
             try {
-                const json = c.req.valid('json')
+                const params = c.req.valid(getInputTarget(method, input, c))
 
                 // context is validated after the middleware, but we only need the original definition to be passed back in to the handler here.
                 const result = await handler(
-                    json,
+                    params,
                     c as TContext extends infer Ctx ? Ctx : never,
                 )
 
-                return c.json(
-                    {
-                        data: result,
-                        error: null,
-                    },
-                    200,
+                return successResponse<ActionOutput<TOutput, TReturn>>(
+                    c,
+                    await parseOutput<TOutput, TReturn>(output, result),
                 )
             } catch (error) {
-                console.error(error)
-                let errorMessage = 'Internal server error'
-                let errorCode = 'INTERNAL_SERVER_ERROR'
+                return errorResponse<TSchema>(c, error)
+            }
+        },
+    )
 
-                if (error instanceof HonoActionError) {
-                    errorMessage = error.message
-                    errorCode = error.code
-                }
+    return route
+}
 
-                return c.json(
-                    {
-                        data: null,
-                        error: {
-                            message: errorMessage,
-                            code: errorCode,
-                        },
-                    },
-                    500,
-                )
+type SSEResponse<TEvent> = Response &
+    TypedResponse<JSONParsed<TEvent>, 200, 'sse'>
+
+/**
+ * Responses of a streaming action, errors thrown before the first event are sent like the ones of {@link defineHonoAction}
+ */
+type ActionStreamResponse<TEvent, TSchema extends HonoActionSchema> =
+    | SSEResponse<TEvent>
+    | JSONResponse<ValidationFailure<TSchema>, ActionErrorStatus>
+    | JSONResponse<ActionFailure<ActionError>, ActionErrorStatus>
+
+/**
+ * Defines an action that streams its result as Server-Sent Events, e.g. the progress of a long-running import or the tokens of an LLM completion.
+ *
+ * The handler is an async generator, every value it yields is sent as a JSON event. Read the events on the client with `readActionStream`.
+ * Input validation and middleware run before the stream starts. Errors thrown before the first event respond with the usual error format,
+ * errors thrown later are sent as an `error` event and end the stream.
+ *
+ * @param schema - The schema for validation (optional).
+ * @param method - The HTTP method, `POST` (default) or `GET`.
+ * @param input - How the input is read from the request body: `json` (default), `form` or `auto`.
+ * @param middleware - Middleware that runs before validation, e.g. auth (optional).
+ * @param handler - Async generator yielding the events.
+ * @returns A Hono app instance with the defined route
+ */
+export function defineHonoStreamAction<
+    TEnv extends HonoEnv,
+    TSchema extends HonoActionSchema,
+    TEvent,
+    TContext extends Context<ActionEnv<TEnv, TMiddleware>, any, any>,
+    TMethod extends ActionMethod = 'POST',
+    TInput extends ActionInputMode = 'json',
+    TMiddleware extends ActionMiddleware[] = ActionMiddleware[],
+>({
+    schema,
+    method = 'POST' as TMethod,
+    input = 'json' as TInput,
+    middleware = [] as ActionMiddleware[] as TMiddleware,
+    handler,
+}: HonoStreamActionParams<
+    TSchema,
+    TEvent,
+    TEnv,
+    TContext,
+    TMethod,
+    TInput,
+    TMiddleware
+>) {
+    const app = new Hono<TEnv>()
+
+    const route = app.on(
+        method,
+        '/',
+        actionMiddleware<TEnv, TSchema>(middleware),
+        inputValidator<TEnv>(
+            method,
+            input,
+            schema ?? EMPTY_SCHEMA,
+        ) as MiddlewareHandler<
+            TEnv,
+            '/',
+            ActionInput<TSchema, TMethod, TInput>
+        >,
+        async (c): Promise<ActionStreamResponse<TEvent, TSchema>> => {
+            let events: AsyncIterator<TEvent>
+            let first: IteratorResult<TEvent>
+            try {
+                const params = c.req.valid(getInputTarget(method, input, c))
+                events = handler(
+                    params,
+                    c as TContext extends infer Ctx ? Ctx : never,
+                )[Symbol.asyncIterator]()
+                // wait for the first event, so early errors (e.g. not found) still get their status
+                first = await events.next()
+            } catch (error) {
+                return errorResponse<TSchema>(c, error)
             }
+
+            return streamSSE(c, async (stream) => {
+                stream.onAbort(() => {
+                    void events.return?.()
+                })
+                try {
+                    for (
+                        let result = first;
+                        !result.done;
+                        result = await events.next()
+                    ) {
+                        await stream.writeSSE({
+                            data: JSON.stringify(result.value),
+                        })
+                    }
+                } catch (error) {
+                    console.error(error)
+                    await stream.writeSSE({
+                        event: 'error',
+                        data: JSON.stringify(toActionError(error).error),
+                    })
+                }
+            }) as SSEResponse<TEvent>
         },
     )
 
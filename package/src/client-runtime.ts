@@ -0,0 +1,12 @@
+/**
+ * Runtime of the generated client, safe to bundle for the browser: it doesn't import the router, validators or zod.
+ * Import action definitions and server helpers from `@gnosticdev/hono-actions/actions` instead.
+ */
+export {
+    HonoActionError,
+    isHonoActionError,
+    toHonoActionError,
+} from './error.js'
+export { createActionsProxy } from './lib/actions-proxy.js'
+export { FORM_ACTION_PARAM } from './lib/form-action.js'
+export { readActionStream } from './lib/sse.js'
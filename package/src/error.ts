@@ -1,29 +1,290 @@
+import type {
+    ClientErrorStatusCode,
+    ServerErrorStatusCode,
+} from 'hono/utils/http-status'
+
+/**
+ * Registry of the error codes an action can respond with, keyed by code.
+ * Each entry declares the HTTP `status` of the code and, optionally, the type of its `issue`.
+ *
+ * Augment it to add your own codes, they flow through to the error type of the client:
+ * ```ts
+ * declare module '@gnosticdev/hono-actions/actions' {
+ *     interface ActionErrorCodes {
+ *         INSUFFICIENT_CREDITS: { status: 402; issue: { required: number } }
+ *     }
+ * }
+ * ```
+ */
+export interface ActionErrorCodes {
+    INPUT_VALIDATION_ERROR: { status: 400; issue: ActionIssue | ActionIssue[] }
+    EXTERNAL_API_ERROR: { status: 502 }
+    INTERNAL_SERVER_ERROR: { status: 500 }
+    UNKNOWN_ERROR: { status: 500 }
+    LOCATION_NOT_FOUND: { status: 404 }
+    // a missing session means the user is not signed in
+    SESSION_NOT_FOUND: { status: 401 }
+    UNAUTHORIZED: { status: 401 }
+    FORBIDDEN: { status: 403 }
+    NOT_FOUND: { status: 404 }
+    CONFLICT: { status: 409 }
+    RATE_LIMITED: { status: 429 }
+    TIMEOUT: { status: 504 }
+    PAYLOAD_TOO_LARGE: { status: 413 }
+}
+
+/**
+ * Error codes for actions, the built-in ones plus the ones added to {@link ActionErrorCodes}
+ */
+export type ActionErrorCode = keyof ActionErrorCodes & string
+
 /**
- * Standard error codes for actions
+ * HTTP status of an error response
  */
-export type ActionErrorCode =
-    | 'INPUT_VALIDATION_ERROR'
-    | 'EXTERNAL_API_ERROR'
-    | 'INTERNAL_SERVER_ERROR'
-    | 'UNKNOWN_ERROR'
-    | 'LOCATION_NOT_FOUND'
-    | 'SESSION_NOT_FOUND'
+export type ActionErrorStatus = ClientErrorStatusCode | ServerErrorStatusCode
+
+/**
+ * The `issue` type declared for an error code, `unknown` when there is none
+ */
+export type ActionErrorIssue<TCode extends ActionErrorCode> =
+    ActionErrorCodes[TCode] extends { issue: infer TIssue } ? TIssue : unknown
+
+type ActionErrorCodeStatus<TCode extends ActionErrorCode> =
+    ActionErrorCodes[TCode] extends { status: infer TStatus }
+        ? Extract<TStatus, ActionErrorStatus>
+        : never
+
+/**
+ * The HTTP status an action responds with for each built-in error code, unless the error sets its own `status`
+ */
+export const ACTION_ERROR_STATUS = {
+    INPUT_VALIDATION_ERROR: 400,
+    EXTERNAL_API_ERROR: 502,
+    INTERNAL_SERVER_ERROR: 500,
+    UNKNOWN_ERROR: 500,
+    LOCATION_NOT_FOUND: 404,
+    SESSION_NOT_FOUND: 401,
+    UNAUTHORIZED: 401,
+    FORBIDDEN: 403,
+    NOT_FOUND: 404,
+    CONFLICT: 409,
+    RATE_LIMITED: 429,
+    TIMEOUT: 504,
+    PAYLOAD_TOO_LARGE: 413,
+} as const satisfies {
+    [TCode in ActionErrorCode]?: ActionErrorCodeStatus<TCode>
+}
+
+type BuiltInActionErrorCode = keyof typeof ACTION_ERROR_STATUS
+
+/**
+ * Built-in codes can override their default status, custom codes must pass the status they declare
+ */
+type ActionErrorStatusOption<TCode extends ActionErrorCode> =
+    TCode extends BuiltInActionErrorCode
+        ? { status?: ActionErrorStatus }
+        : { status: ActionErrorCodeStatus<TCode> }
 
 export class HonoActionError<
     TMessage extends string,
     TCode extends ActionErrorCode,
-    TIssue = any,
+    TIssue extends ActionErrorIssue<TCode> = any,
 > extends Error {
     code: TCode
     issue?: TIssue
+    /**
+     * The HTTP status of the response, defaults to the status of the error code
+     */
+    status: ActionErrorStatus
     constructor({
         message,
         code,
         issue,
-    }: { message: TMessage; code: TCode; issue?: TIssue }) {
+        status,
+    }: {
+        message: TMessage
+        code: TCode
+        issue?: TIssue
+    } & ActionErrorStatusOption<TCode>) {
         super(message)
         this.name = 'HonoActionError'
         this.code = code
         this.issue = issue
+        this.status =
+            status ?? ACTION_ERROR_STATUS[code as BuiltInActionErrorCode] ?? 500
+    }
+}
+
+/**
+ * A single validation issue, `path` points at the offending field
+ */
+export interface ActionIssue {
+    message: string
+    path: (string | number)[]
+    code?: string
+}
+
+/**
+ * Dot separated paths of the fields of `T`, e.g. `name`, `address.city` or `tags.0`
+ */
+export type FieldPath<
+    T,
+    TDepth extends unknown[] = [],
+> = TDepth['length'] extends 6
+    ? string
+    : T extends Blob | Date
+      ? never
+      : T extends readonly (infer TItem)[]
+        ?
+              | `${number}`
+              | `${number}.${FieldPath<NonNullable<TItem>, [...TDepth, 1]>}`
+        : T extends object
+          ? {
+                [K in keyof T & string]-?:
+                    | K
+                    | `${K}.${FieldPath<NonNullable<T[K]>, [...TDepth, 1]>}`
+            }[keyof T & string]
+          : never
+
+/**
+ * Error sent when the input of an action fails validation
+ */
+export interface ActionValidationError<TField extends string = string> {
+    message: string
+    code: 'INPUT_VALIDATION_ERROR'
+    status: ActionErrorStatus
+    /**
+     * The first issue
+     */
+    issue?: ActionIssue
+    /**
+     * Every issue found in the input
+     */
+    issues: ActionIssue[]
+    /**
+     * Issue messages keyed by the path of the field (see {@link FieldPath}), ready to render next to each input.
+     * Issues about the input as a whole are only listed in `issues`.
+     */
+    fieldErrors: Partial<Record<TField, string[]>>
+}
+
+/**
+ * Error sent when an action fails, see {@link ActionValidationError} for invalid input
+ */
+export type ActionError = {
+    [TCode in Exclude<ActionErrorCode, 'INPUT_VALIDATION_ERROR'>]: {
+        message: string
+        code: TCode
+        /**
+         * HTTP status of the response, sent in the body too so the `error` events of a stream keep it
+         */
+        status: ActionErrorStatus
+        issue?: ActionErrorIssue<TCode>
+    }
+}[Exclude<ActionErrorCode, 'INPUT_VALIDATION_ERROR'>]
+
+/**
+ * Wire format of action errors. Error responses (and the `error` events of streaming actions) send
+ * `{ data: null, error }` where `error` is one of these, see {@link toHonoActionError} to rebuild the thrown error.
+ */
+export type ActionErrorPayload = ActionError | ActionValidationError
+
+/**
+ * Creates the validation error payload for the given issues
+ *
+ * @param issues - The validation issues
+ * @param message - Defaults to the message of the first issue
+ * @param status - The HTTP status of the response
+ */
+export function createValidationError(
+    issues: readonly ActionIssue[],
+    message = issues[0]?.message || 'Validation error',
+    status: ActionErrorStatus = 400,
+): ActionValidationError {
+    return {
+        message,
+        code: 'INPUT_VALIDATION_ERROR',
+        status,
+        issue: issues[0],
+        issues: [...issues],
+        fieldErrors: getFieldErrors(issues),
     }
 }
+
+/**
+ * Creates the error payload of a response without the JSON error format, e.g. the text 404 of a missing route or a proxy error page
+ *
+ * @param res - The response
+ */
+export function createUnknownError(
+    res: Response,
+): Extract<ActionError, { code: 'UNKNOWN_ERROR' }> {
+    return {
+        message: res.statusText || `Request failed with status ${res.status}`,
+        code: 'UNKNOWN_ERROR',
+        status: res.status as ActionErrorStatus,
+    }
+}
+
+/**
+ * Groups issue messages by the dot separated path of the field
+ */
+function getFieldErrors(issues: readonly ActionIssue[]) {
+    const fieldErrors: Record<string, string[]> = {}
+    for (const issue of issues) {
+        if (issue.path.length === 0) {
+            continue
+        }
+        const field = issue.path.join('.')
+        fieldErrors[field] ??= []
+        fieldErrors[field].push(issue.message)
+    }
+    return fieldErrors
+}
+
+/**
+ * Rebuilds the {@link HonoActionError} of an error payload, e.g. the `error` of a response body.
+ * The issues of a validation error are its `issue`.
+ *
+ * @example
+ * ```ts
+ * const { data, error } = await res.json()
+ * if (error) {
+ *     throw toHonoActionError(error)
+ * }
+ * ```
+ *
+ * @param payload - The error payload, see {@link ActionErrorPayload}
+ */
+export function toHonoActionError<TPayload extends ActionErrorPayload>(
+    payload: TPayload,
+) {
+    return new HonoActionError({
+        message: payload.message,
+        code: payload.code,
+        issue: 'issues' in payload ? payload.issues : payload.issue,
+        // payloads of older servers have no status, the constructor falls back to the status of the code
+        status: payload.status,
+    } as ConstructorParameters<typeof HonoActionError>[0]) as HonoActionError<
+        string,
+        TPayload['code'],
+        ActionErrorIssue<TPayload['code']>
+    >
+}
+
+/**
+ * Whether a caught value is a {@link HonoActionError}. Unlike `instanceof`, it also matches errors
+ * created by another copy of this package, e.g. when the client and the server are bundled separately.
+ *
+ * @param error - The caught value
+ */
+export function isHonoActionError(
+    error: unknown,
+): error is HonoActionError<string, ActionErrorCode> {
+    return (
+        error instanceof HonoActionError ||
+        (error instanceof Error &&
+            error.name === 'HonoActionError' &&
+            typeof (error as { code?: unknown }).code === 'string')
+    )
+}
@@ -1,5 +1,8 @@
 import integration from './integration.js'
-import type { IntegrationOptions } from './integration.js'
+import type {
+    AdapterHandlerTemplate,
+    IntegrationOptions,
+} from './integration.js'
 
 export default integration
-export type { IntegrationOptions }
+export type { AdapterHandlerTemplate, IntegrationOptions }
@@ -1,4 +1,10 @@
-import type { SUPPORTED_ADAPTERS } from './integration'
+import type {
+    AdapterHandlerTemplate,
+    IntegrationOptions,
+    RouterMiddleware,
+    SupportedAdapter,
+} from './integration'
+import { getActionRoute } from './lib/actions-dir.js'
 
 /**
  * Generate router using the buildRouter pattern for better type inference
@@ -6,28 +12,71 @@ import type { SUPPORTED_ADAPTERS } from './integration'
 export function generateRouter(opts: {
     basePath: string
     relativeActionsPath: string
+    middleware?: RouterMiddleware
 }) {
     const { basePath, relativeActionsPath } = opts
+    const {
+        cors = {},
+        logger = true,
+        prettyJSON = true,
+        middlewarePath,
+    } = opts.middleware ?? {}
 
-    return `import type { HonoEnv, MergeActionKeyIntoPath } from '@gnosticdev/hono-actions/actions'
-import { Hono } from 'hono'
-import { cors } from 'hono/cors'
-import { showRoutes } from 'hono/dev'
-import { logger } from 'hono/logger'
-import { prettyJSON } from 'hono/pretty-json'
-import type { ExtractSchema, MergeSchemaPath } from 'hono/types'
+    const builtInMiddleware: string[] = []
+    if (cors) {
+        const corsOptions =
+            Object.keys(cors).length > 0 ? JSON.stringify(cors) : ''
+        builtInMiddleware.push(`cors(${corsOptions})`)
+    }
+    if (logger) {
+        builtInMiddleware.push(
+            typeof logger === 'object' ? 'logger(loggerSink)' : 'logger()',
+        )
+    }
+    if (prettyJSON === true) {
+        builtInMiddleware.push('prettyJSON()')
+    }
+
+    const imports = [
+        "import { Hono } from 'hono'",
+        cors && "import { cors } from 'hono/cors'",
+        "import { showRoutes } from 'hono/dev'",
+        logger && "import { logger } from 'hono/logger'",
+        prettyJSON && "import { prettyJSON } from 'hono/pretty-json'",
+        "import type { MergeSchemaPath } from 'hono/types'",
+        typeof logger === 'object' && `import loggerSink from '${logger.sink}'`,
+        middlewarePath && `import userMiddleware from '${middlewarePath}'`,
+    ]
+
+    const setup = [
+        "app.use('*', astroContext())",
+        `// plain HTML forms posted to formAction() are redirected back to the page with the result
+    app.use('*', formActions('${basePath}'))`,
+        builtInMiddleware.length > 0 &&
+            `app.use('*', ${builtInMiddleware.join(', ')})`,
+        prettyJSON === 'dev' &&
+            `if (import.meta.env.DEV) {
+        app.use('*', prettyJSON())
+    }`,
+        middlewarePath &&
+            `// middleware of the user module, after the built-in ones
+    app.use('*', ...[userMiddleware].flat())`,
+    ]
+
+    return `import type { ExtractActionsSchema, HonoEnv, MergeActionKeyIntoPath } from '@gnosticdev/hono-actions/actions'
+import { astroContext, formActions, mountActions } from '@gnosticdev/hono-actions/actions'
+${imports.filter(Boolean).join('\n')}
 
 async function buildRouter(){
     type ActionsWithKeyedPaths = MergeActionKeyIntoPath<typeof honoActions>
-    type ActionSchema = ExtractSchema<ActionsWithKeyedPaths[keyof ActionsWithKeyedPaths]>
+    type ActionSchema = ExtractActionsSchema<ActionsWithKeyedPaths>
     const { honoActions} = await import('${relativeActionsPath}')
     const app = new Hono<HonoEnv, MergeSchemaPath<ActionSchema, \`${basePath}\`>>().basePath('${basePath}')
 
-    app.use('*', cors(), logger(), prettyJSON())
+    ${setup.filter(Boolean).join('\n    ')}
 
-    for (const [routeName, action] of Object.entries(honoActions)) {
-        app.route(\`/\${routeName}\`, action)
-    }
+    // action groups are mounted under their key, e.g. /billing/createInvoice
+    mountActions(app, honoActions)
 
     return app
 }
@@ -41,44 +90,270 @@ console.log('---------------------------')
 export default app`
 }
 
+type ActionsTree = { [key: string]: string | ActionsTree }
+
+/**
+ * Generate the actions module for the actions directory, each file is imported and keyed by its route.
+ * The default export of a file is an action or a group of actions, e.g. `billing/createInvoice.ts` -> `honoActions.billing.createInvoice`
+ *
+ * @param opts.actionFiles - Action files relative to the actions directory
+ * @param opts.relativeActionsDir - Path from the codegen dir to the actions directory
+ */
+export function generateActionsModule(opts: {
+    actionFiles: string[]
+    relativeActionsDir: string
+}) {
+    const { actionFiles, relativeActionsDir } = opts
+
+    // without a prototype, so files like `constructor.ts` or `toString/list.ts` don't hit inherited keys
+    const tree: ActionsTree = Object.create(null)
+    const imports = actionFiles.map((file, index) => {
+        const route = getActionRoute(file)
+        const key = route.pop() as string
+        let group = tree
+        for (const segment of route) {
+            const next = (group[segment] ??= Object.create(null) as ActionsTree)
+            if (typeof next === 'string') {
+                throw new Error(
+                    `Action ${file} is inside ${segment}, which is also an action. Rename the file or the folder.`,
+                )
+            }
+            group = next
+        }
+        if (Object.hasOwn(group, key)) {
+            throw new Error(
+                `Action ${file} has the same route as another action or folder. Rename one of them.`,
+            )
+        }
+        group[key] = `action${index}`
+        const specifier = file.replace(/\.[mc]?[jt]s$/, '')
+        return `import action${index} from '${relativeActionsDir}/${specifier}'`
+    })
+
+    return `// Generated by Hono Actions Integration
+import type { HonoActions } from '@gnosticdev/hono-actions/actions'
+${imports.join('\n')}
+
+export const honoActions = ${printActionsTree(tree, 0)} satisfies HonoActions
+`
+}
+
+function printActionsTree(tree: ActionsTree, depth: number): string {
+    if (Object.keys(tree).length === 0) {
+        return '{}'
+    }
+    const indent = '    '.repeat(depth + 1)
+    const entries = Object.entries(tree).map(
+        ([key, value]) =>
+            `${indent}${JSON.stringify(key)}: ${typeof value === 'string' ? value : printActionsTree(value, depth + 1)},`,
+    )
+    return `{\n${entries.join('\n')}\n${'    '.repeat(depth)}}`
+}
+
+const NO_EXECUTION_CTX: AdapterHandlerTemplate = {
+    // no execution context, bindings are read from process.env
+    env: 'process.env',
+}
+
+const VERCEL_TEMPLATE: AdapterHandlerTemplate = {
+    // same lookup as `waitUntil` from `@vercel/functions`, works in serverless and edge functions
+    setup: "const VERCEL_REQUEST_CONTEXT = Symbol.for('@vercel/request-context')",
+    env: 'process.env',
+    executionCtx: `{
+            waitUntil: (promise) =>
+                (globalThis as any)[VERCEL_REQUEST_CONTEXT]?.get?.()?.waitUntil?.(promise),
+            passThroughOnException: () => {},
+            props: {},
+        }`,
+}
+
+const NETLIFY_TEMPLATE: AdapterHandlerTemplate = {
+    // global in both netlify functions and edge functions (where `process` is not available)
+    setup: 'declare const Netlify: { env: { toObject(): Record<string, string> } }',
+    env: 'Netlify.env.toObject()',
+    executionCtx: `{
+            waitUntil: (promise) => ctx.locals.netlify?.context.waitUntil(promise),
+            passThroughOnException: () => {},
+            props: {},
+        }`,
+}
+
+/**
+ * Built-in handler templates for the supported adapters
+ */
+export const ADAPTER_TEMPLATES: Record<
+    SupportedAdapter,
+    AdapterHandlerTemplate
+> = {
+    '@astrojs/cloudflare': {
+        env: 'ctx.locals.runtime.env',
+        executionCtx: 'ctx.locals.runtime.ctx',
+    },
+    '@astrojs/node': NO_EXECUTION_CTX,
+    '@astrojs/vercel': VERCEL_TEMPLATE,
+    '@astrojs/vercel/serverless': VERCEL_TEMPLATE,
+    '@astrojs/vercel/edge': VERCEL_TEMPLATE,
+    '@astrojs/netlify': NETLIFY_TEMPLATE,
+    '@astrojs/netlify/functions': NETLIFY_TEMPLATE,
+    '@astrojs/netlify/edge-functions': NETLIFY_TEMPLATE,
+}
+
+/**
+ * Used when neither the user nor the built-in templates know the adapter.
+ * `process` may not exist outside of node compatible runtimes.
+ */
+export const GENERIC_TEMPLATE: AdapterHandlerTemplate = {
+    env: 'globalThis.process?.env',
+}
+
 /**
  * Injects the Hono router into the Astro API route handler at `src/pages/api/[...slug].ts`
  *
  * @param adapter - The adapter in use from the astro config
+ * @param template - Custom handler template, takes precedence over the built-in template for the adapter
  *
- * For use with `@astrojs/cloudflare` adapter only (for now).a
+ * Falls back to a generic handler (no execution context) for adapters without a template.
+ * The Astro `locals` and `APIContext` are always forwarded as `ASTRO_LOCALS` and `ASTRO_CONTEXT` on top of the platform env.
  */
 export const generateAstroHandler = (
-    adapter: (typeof SUPPORTED_ADAPTERS)[number],
+    adapter: string,
+    template?: AdapterHandlerTemplate,
 ) => {
-    switch (adapter) {
-        case '@astrojs/cloudflare':
-            return `
+    const { setup, fetchArgs } = getRouterFetch(adapter, template)
+
+    return `
 /// <reference types="./types.d.ts" />
 // Generated by Hono Actions Integration
+// Adapter: ${adapter}
 import router from './router.js'
 import type { APIContext, APIRoute } from 'astro'
-
+${setup ? `\n${setup}\n` : ''}
 const handler: APIRoute<APIContext> = async (ctx) => {
     return router.fetch(
-        ctx.request,
-        ctx.locals.runtime.env,
-        ctx.locals.runtime.ctx,
+${fetchArgs.map((arg) => `        ${arg},`).join('\n')}
     )
 }
 
 export { handler as ALL }
 `
-        default:
-            throw new Error(`Unsupported adapter: ${adapter}`)
-    }
 }
-export const generateHonoClient = (port: number) => `
+
+/**
+ * Generates the server client, it calls the router in-process with the same env as the API handler
+ *
+ * @param adapter - The adapter in use from the astro config
+ * @param template - Custom handler template, takes precedence over the built-in template for the adapter
+ */
+export const generateServerClient = (
+    adapter: string,
+    template?: AdapterHandlerTemplate,
+) => {
+    const { setup, fetchArgs } = getRouterFetch(
+        adapter,
+        template,
+        '                ',
+    )
+    // the request is the one built by the client, `ctx` is the page the client was created for
+    const [, ...envArgs] = fetchArgs
+
+    return `
+/// <reference types="./types.d.ts" />
+// Generated by Hono Actions Integration
+// Adapter: ${adapter}
+import router from './router.js'
+import type { HonoRouter } from './router.js'
+import type { APIContext } from 'astro'
+import { hc } from 'hono/client'
+${setup ? `\n${setup}\n` : ''}
+// the body is set by the client
+const SKIPPED_HEADERS = ['content-type', 'content-length', 'transfer-encoding']
+
+/**
+ * Creates a client that calls the actions in-process instead of over HTTP, e.g. in the frontmatter of a page.
+ * The headers (cookies, auth) and context (\`Astro.locals\`, \`Astro.cookies\`) of the current request are forwarded to the actions.
+ *
+ * @param ctx - \`Astro\` in pages and components, the \`APIContext\` in endpoints and middleware
+ */
+export function createServerClient(ctx: APIContext) {
+    const headers: Record<string, string> = {}
+    ctx.request.headers.forEach((value, key) => {
+        if (!SKIPPED_HEADERS.includes(key)) {
+            headers[key] = value
+        }
+    })
+
+    return hc<HonoRouter>(ctx.url.origin, {
+        headers,
+        fetch: async (input: RequestInfo | URL, init?: RequestInit) =>
+            router.fetch(
+                new Request(input, init),
+${envArgs.map((arg) => `                ${arg},`).join('\n')}
+            ),
+    })
+}
+`
+}
+
+/**
+ * The `router.fetch` arguments built from the Astro context `ctx`
+ */
+function getRouterFetch(
+    adapter: string,
+    template?: AdapterHandlerTemplate,
+    indent = '        ',
+) {
+    const { env, executionCtx, setup } =
+        template ??
+        ADAPTER_TEMPLATES[adapter as SupportedAdapter] ??
+        GENERIC_TEMPLATE
+
+    const honoEnv = `{
+${indent}    ...${env},
+${indent}    ASTRO_LOCALS: ctx.locals,
+${indent}    ASTRO_CONTEXT: ctx,
+${indent}}`
+
+    const fetchArgs = ['ctx.request', honoEnv, executionCtx].filter(
+        (arg): arg is string => Boolean(arg),
+    )
+    return { setup, fetchArgs }
+}
+
+/**
+ * Generates the client module, `honoClient` and `createHonoClient` are typed by the generated router
+ *
+ * @param port - Port of the dev server
+ * @param client - Base URL and default headers from the `client` option of the integration
+ * @param basePath - The base path of the router, stripped from the actions proxy
+ * @param getActions - Routes of the GET actions, e.g. `['search']`, the actions proxy calls them with GET
+ */
+export const generateHonoClient = (
+    port: number,
+    client: NonNullable<IntegrationOptions>['client'] = {},
+    basePath = '/api',
+    getActions: string[] = [],
+) => `
 // Generated by Hono Actions Integration
 import type { HonoRouter } from './router.js'
 import { hc, parseResponse } from 'hono/client'
-
-function getBaseUrl() {
+import type { ClientRequestOptions } from 'hono/client'
+import type { ExtractSchema } from 'hono/types'
+import {
+    createActionsProxy,
+    FORM_ACTION_PARAM,
+    HonoActionError,
+    isHonoActionError,
+    readActionStream,
+    toHonoActionError,
+} from '@gnosticdev/hono-actions/client-runtime'
+${client.validate ? "import * as schemas from './schemas.js'\n" : ''}
+function getBaseUrl() {${
+    client.baseUrl
+        ? `
+    // set with the \`client.baseUrl\` option of the integration
+    return ${JSON.stringify(client.baseUrl)}
+}`
+        : `
     // client side can just use the base path
     if (typeof window !== 'undefined') {
         return '/'
@@ -91,7 +366,105 @@ function getBaseUrl() {
 
     // server side (production) needs full url
     return import.meta.env.SITE ?? ''
+}`
+}
+
+const DEFAULT_HEADERS: Record<string, string> = ${JSON.stringify(client.headers ?? {})}
+
+export type HonoClientOptions = ClientRequestOptions & {
+    /**
+     * URL the API is served from, e.g. \`https://api.example.com\`.
+     * Defaults to the \`client.baseUrl\` option of the integration, or the current origin in the browser, the dev server in dev and \`site\` on the server.
+     */
+    baseUrl?: string
 }
-export { parseResponse, hc }
-export const honoClient = hc<HonoRouter>(getBaseUrl())
+
+/**
+ * Creates a typed client for the actions, e.g. for another origin, with auth headers or a custom \`fetch\`.
+ * \`headers\` are added to the default headers of the integration, they can be a function called on every request.
+ */
+export function createHonoClient({
+    baseUrl = getBaseUrl(),
+    headers,
+    ...options
+}: HonoClientOptions = {}) {
+    return hc<HonoRouter>(baseUrl, {
+        ...options,
+        headers: async () => ({
+            ...DEFAULT_HEADERS,
+            ...(typeof headers === 'function' ? await headers() : headers),
+        }),
+    })
+}
+
+export {
+    parseResponse,
+    hc,
+    readActionStream,
+    HonoActionError,
+    isHonoActionError,
+    toHonoActionError,
+}
+export const honoClient = createHonoClient()
+
+/**
+ * Actions as functions, e.g. \`await actions.billing.createInvoice(input)\`, without the base path.
+ * Calls throw a \`HonoActionError\`, \`.safe()\` returns \`{ data, error }\` instead.
+ */
+export const createActions = (client: typeof honoClient = honoClient) =>
+    createActionsProxy(client${basePath
+        .split('/')
+        .filter(Boolean)
+        .map((segment) => `[${JSON.stringify(segment)}]`)
+        .join('')}${getActionsProxyOptions(client, getActions)})
+
+export const actions = createActions()
+
+export type FormActionPath = keyof ExtractSchema<HonoRouter> extends infer TPath
+    ? TPath extends \`${basePath}/\${infer TAction}\`
+        ? TAction
+        : never
+    : never
+
+/**
+ * URL to post a plain HTML form to, e.g. \`<form method="post" action={formAction('signup')}>\`. Works without JavaScript:
+ * the action reads the form data and redirects back to the page, read the result with \`getFormActionResult(Astro)\`.
+ */
+export const formAction = (action: FormActionPath) =>
+    \`${basePath}/\${action}?\${FORM_ACTION_PARAM}\`
+`
+
+/**
+ * Options of the generated \`createActionsProxy\` call, empty when the defaults are used
+ */
+function getActionsProxyOptions(
+    client: NonNullable<NonNullable<IntegrationOptions>['client']>,
+    getActions: string[],
+) {
+    const options = [
+        getActions.length > 0 && `getActions: ${JSON.stringify(getActions)},`,
+        client.serialization === 'devalue' && "serialization: 'devalue',",
+        // every action is validated with its schema before it is sent
+        client.validate && 'schemas,',
+    ].filter(Boolean)
+    return options.length > 0
+        ? `, {
+        ${options.join('\n        ')}
+    }`
+        : ''
+}
+
+/**
+ * Generates the schemas module, it re-exports the input schemas module of the user so client bundles only include the schemas they import
+ *
+ * @param relativeSchemasPath - Import path of the schemas module from the codegen dir, `undefined` when there is none
+ */
+export const generateSchemasModule = (relativeSchemasPath?: string) =>
+    relativeSchemasPath
+        ? `// Generated by Hono Actions Integration
+export * from '${relativeSchemasPath}'
+`
+        : `// Generated by Hono Actions Integration
+// no schemas module found, see the \`schemasPath\` option of the integration
+export {}
 `
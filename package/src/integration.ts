@@ -1,5 +1,6 @@
 /// <reference types="astro/client" />
 
+import type { AstroIntegrationLogger } from 'astro'
 import {
     addVirtualImports,
     createResolver,
@@ -11,11 +12,78 @@ import path from 'node:path'
 import { glob } from 'tinyglobby'
 
 import {
+    generateActionsModule,
     generateAstroHandler,
     generateHonoClient,
+    generateSchemasModule,
     generateRouter,
+    generateServerClient,
 } from './integration-files.js'
-import { reservedRoutes } from './lib/utils.js'
+import {
+    type ActionKey,
+    findPageRoutes,
+    getGetActions,
+    readActionKeys,
+    readModuleActionKeys,
+    readModuleSchemaKeys,
+    readSchemaKeys,
+    validateActionKeys,
+    validateSchemaKeys,
+} from './lib/action-keys.js'
+import {
+    findActionFiles,
+    getActionDirKeys,
+    isActionFile,
+    readActionFileMethods,
+} from './lib/actions-dir.js'
+import { normalizeBasePath, validateBasePath } from './lib/utils.js'
+
+const adapterHandlerTemplateSchema = z.object({
+    /**
+     * Expression for the platform bindings passed to the Hono `env` (`c.env`), `ctx` is the Astro `APIContext`.
+     * `ASTRO_LOCALS` and `ASTRO_CONTEXT` are added by the generated handler.
+     *
+     * @example 'ctx.locals.runtime.env'
+     */
+    env: z.string(),
+    /**
+     * Expression for the Hono `executionCtx` (`c.executionCtx`), omit it when the platform has none
+     *
+     * @example 'ctx.locals.runtime.ctx'
+     */
+    executionCtx: z.string().optional(),
+    /**
+     * Code placed after the imports of the generated handler, e.g. imports or declarations used by the expressions
+     */
+    setup: z.string().optional(),
+})
+
+/**
+ * Describes how the generated API handler builds the `router.fetch` arguments from the Astro `APIContext`
+ */
+export type AdapterHandlerTemplate = z.output<
+    typeof adapterHandlerTemplateSchema
+>
+
+const corsOptionsSchema = z.object({
+    /**
+     * Allowed origins, e.g. `['https://example.com']`
+     *
+     * @default '*'
+     */
+    origin: z.union([z.string(), z.array(z.string())]).optional(),
+    /**
+     * Allow cookies and auth headers, requires explicit origins
+     */
+    credentials: z.boolean().optional(),
+    allowMethods: z.array(z.string()).optional(),
+    allowHeaders: z.array(z.string()).optional(),
+    exposeHeaders: z.array(z.string()).optional(),
+    /**
+     * Seconds the result of a preflight request can be cached
+     */
+    maxAge: z.number().optional(),
+})
 
 const optionsSchema = z
     .object({
@@ -35,14 +103,122 @@ const optionsSchema = z
          * @default 'src/server/actions.ts'
          */
         actionsPath: z.string().optional(),
+        /**
+         * Directory where every file is an action (or a group of actions), routed by its path like `src/pages`:
+         * `src/actions/billing/createInvoice.ts` is served at `{basePath}/billing/createInvoice`.
+         * The default export of each file is the action. Files and folders starting with `_` are skipped.
+         *
+         * Takes precedence over `actionsPath`. Don't point it at a directory used by Astro Actions (`src/actions/index.ts`).
+         *
+         * @example 'src/actions'
+         */
+        actionsDir: z.string().optional(),
+        /**
+         * Module exporting the input schemas of the actions under the same keys as `honoActions` (groups are objects),
+         * e.g. `export const signup = z.object({ ... })`. Re-exported by `@gnosticdev/hono-actions/schemas` so client code can validate
+         * the input before sending it. Keep it free of server code, the actions import their schema from it.
+         * If not provided, `src/server/schemas.ts` or `src/hono/schemas.ts` is used when it exists.
+         *
+         * @example 'src/lib/schemas.ts'
+         */
+        schemasPath: z.string().optional(),
+        /**
+         * CORS for the API routes, see `hono/cors`. `false` disables it, e.g. when the app only calls its own API.
+         *
+         * @default {} (any origin)
+         */
+        cors: z.union([z.literal(false), corsOptionsSchema]).optional(),
+        /**
+         * Request logging, see `hono/logger`. `false` disables it, `sink` is the path to a module whose default export
+         * receives the log lines (`(message: string, ...rest: string[]) => void`) instead of `console.log`.
+         *
+         * @default true
+         */
+        logger: z
+            .union([z.boolean(), z.object({ sink: z.string() })])
+            .optional(),
+        /**
+         * Pretty print JSON responses of requests with a `?pretty` query, see `hono/pretty-json`. `'dev'` only enables it in `astro dev`.
+         *
+         * @default true
+         */
+        prettyJSON: z.union([z.boolean(), z.literal('dev')]).optional(),
+        /**
+         * Path to a module whose default export (a middleware or an array of middleware) is registered on every API route,
+         * after the built-in middleware.
+         *
+         * @example 'src/server/middleware.ts'
+         */
+        middlewarePath: z.string().optional(),
+        /**
+         * Defaults of the generated client, see `createHonoClient` to configure a client at runtime (e.g. a custom `fetch`)
+         */
+        client: z
+            .object({
+                /**
+                 * URL the API is served from, e.g. on another origin or behind a proxy.
+                 * By default the client uses the current origin in the browser, `http://localhost:{port}` in dev and `site` on the server.
+                 *
+                 * @example 'https://api.example.com'
+                 */
+                baseUrl: z.string().optional(),
+                /**
+                 * Headers sent with every request of the client
+                 */
+                headers: z.record(z.string()).optional(),
+                /**
+                 * Serialization of the JSON input and the `data` of `actions`, `devalue` keeps `Date`, `Map`, `Set`, `BigInt`, ... values.
+                 * Negotiated with a header, so `honoClient` and other clients keep receiving plain JSON.
+                 *
+                 * @default 'json'
+                 */
+                serialization: z.enum(['json', 'devalue']).optional(),
+                /**
+                 * Validate the input of `actions` with the schemas of `schemasPath` before sending it.
+                 * Bundles every schema, validate single calls with the `validate` option of the call instead to only include the ones you use.
+                 *
+                 * @default false
+                 */
+                validate: z.boolean().optional(),
+            })
+            .optional(),
+        /**
+         * Register a handler template for adapters that are not supported out of the box (or to override a built-in one).
+         * Called with the name of the adapter in use, return `undefined` to keep the default.
+         *
+         * When no template matches, a generic handler is used: `env` is `process.env` (if available) plus `ASTRO_LOCALS`, without an execution context.
+         *
+         * @example
+         * ```ts
+         * adapterHandler: (adapter) =>
+         *     adapter === 'my-adapter'
+         *         ? { env: 'ctx.locals.platform.env', executionCtx: 'ctx.locals.platform.ctx' }
+         *         : undefined
+         * ```
+         */
+        adapterHandler: z
+            .function()
+            .args(z.string())
+            .returns(adapterHandlerTemplateSchema.optional())
+            .optional(),
     })
     .optional()
 
 export type IntegrationOptions = z.output<typeof optionsSchema>
 
+/**
+ * Middleware options of the generated router, module paths are relative to the router
+ */
+export type RouterMiddleware = Pick<
+    NonNullable<IntegrationOptions>,
+    'cors' | 'logger' | 'prettyJSON' | 'middlewarePath'
+>
+
 export const VIRTUAL_MODULE_ID_CLIENT = '@gnosticdev/hono-actions/client'
 // const VIRTUAL_MODULE_ID_DEFINITION = 'virtual:hono-actions'
 export const VIRTUAL_MODULE_ID_ROUTER = 'virtual:hono-actions/router'
+export const VIRTUAL_MODULE_ID_SERVER = '@gnosticdev/hono-actions/server'
+export const VIRTUAL_MODULE_ID_SCHEMAS = '@gnosticdev/hono-actions/schemas'
 
 const ACTION_PATTERNS = [
     'src/server/actions.ts',
@@ -51,8 +227,19 @@ const ACTION_PATTERNS = [
     'src/hono.ts',
 ]
 
-export const SUPPORTED_ADAPTERS = ['@astrojs/cloudflare'] as const
-type SupportedAdapter = (typeof SUPPORTED_ADAPTERS)[number]
+const SCHEMA_PATTERNS = ['src/server/schemas.ts', 'src/hono/schemas.ts']
+
+export const SUPPORTED_ADAPTERS = [
+    '@astrojs/cloudflare',
+    '@astrojs/node',
+    '@astrojs/vercel',
+    '@astrojs/vercel/serverless',
+    '@astrojs/vercel/edge',
+    '@astrojs/netlify',
+    '@astrojs/netlify/functions',
+    '@astrojs/netlify/edge-functions',
+] as const
+export type SupportedAdapter = (typeof SUPPORTED_ADAPTERS)[number]
 function isSupportedAdapter(adapter: string): adapter is SupportedAdapter {
     return SUPPORTED_ADAPTERS.includes(adapter as any)
 }
@@ -64,59 +251,238 @@ function isSupportedAdapter(adapter: string): adapter is SupportedAdapter {
  *
  * Supprted Adapters:
  * - Cloudflare
+ * - Node
+ * - Vercel (serverless and edge)
+ * - Netlify (functions and edge functions)
  * - (more to come)
  *
  * @param options - Configuration options for the integration
  * @param options.basePath - Base path for API routes (default: '/api')
  * @param options.actionsPath - Custom path to actions file (optional, auto-discovered by default)
+ * @param options.actionsDir - Directory of action files, routed by their path (optional)
+ * @param options.adapterHandler - Custom handler template for the adapter in use (optional)
+ * @param options.cors - CORS options, `false` to disable (optional)
+ * @param options.logger - `false` to disable request logging, or a module path for the log sink (optional)
+ * @param options.prettyJSON - `false` to disable, `'dev'` to only enable it in dev (optional)
+ * @param options.middlewarePath - Module with middleware for every API route (optional)
+ * @param options.client - Base URL and default headers of the generated client (optional)
  */
 export default defineIntegration({
     name: '@gnosticdev/hono-actions',
     optionsSchema: optionsSchema,
     setup: ({ options = {}, name }) => {
-        const basePath = options.basePath ?? '/api'
-        if (reservedRoutes.includes(basePath)) {
-            throw new Error(
-                `Base path ${basePath} is reserved by Astro; pick another (e.g. /api2).`,
-            )
+        const basePath = normalizeBasePath(options.basePath ?? '/api')
+        const basePathError = validateBasePath(basePath)
+        if (basePathError) {
+            throw new Error(basePathError)
         }
 
         const baseResolver = createResolver(import.meta.url)
 
+        let root = ''
+        let pagesDir = ''
+
+        /**
+         * Throws when the keys are not URL-safe, share a route or collide with a page
+         */
+        async function assertValidActionKeys(
+            keys: ActionKey[],
+            source: string,
+        ) {
+            const diagnostics = validateActionKeys(keys, {
+                basePath,
+                pages: await findPageRoutes(pagesDir),
+                pagesDir: path.relative(root, pagesDir),
+            })
+            if (diagnostics.length > 0) {
+                throw new Error(
+                    `Invalid actions in ${source}:\n${diagnostics.map((d) => `  - ${d}`).join('\n')}`,
+                )
+            }
+        }
+
+        // set when actions are discovered from `actionsDir`, the actions module is regenerated as files are added or removed
+        let actionsDir: string | undefined
+        let actionsModulePath: string | undefined
+        // set when actions are read from a single file, its keys are checked again once the dev server has loaded it
+        let actionsFile: string | undefined
+        // set by the dev server, runs once it has started
+        let checkLoadedActions: (() => Promise<void>) | undefined
+        // module of the input schemas, keyed like the actions
+        let schemasFile: string | undefined
+
+        // routes of the GET actions, the generated actions proxy calls them with GET
+        let getActions: string[] = []
+        let clientPath: string | undefined
+        let devPort = 4321
+
+        async function writeClient() {
+            if (!clientPath) {
+                return
+            }
+            const content = generateHonoClient(
+                devPort,
+                options.client,
+                basePath,
+                getActions,
+            )
+            const current = await fs
+                .readFile(clientPath, 'utf-8')
+                .catch(() => undefined)
+            // only write on change so the dev server doesn't reload for nothing
+            if (content !== current) {
+                await fs.writeFile(clientPath, content, 'utf-8')
+            }
+        }
+
+        async function writeActionsModule() {
+            if (!actionsDir || !actionsModulePath) {
+                return
+            }
+            const actionFiles = await findActionFiles(actionsDir)
+            const relativeDir = toImportPath(path.relative(root, actionsDir))
+            const keys = getActionDirKeys(
+                actionFiles,
+                relativeDir,
+                await readActionFileMethods(actionsDir, actionFiles),
+            )
+            await assertValidActionKeys(keys, relativeDir)
+            getActions = getGetActions(keys)
+            await writeClient()
+            const content = generateActionsModule({
+                actionFiles,
+                relativeActionsDir: toImportPath(
+                    path.relative(path.dirname(actionsModulePath), actionsDir),
+                ),
+            })
+            const current = await fs
+                .readFile(actionsModulePath, 'utf-8')
+                .catch(() => undefined)
+            // only write on change so the dev server doesn't reload for nothing
+            if (content !== current) {
+                await fs.writeFile(actionsModulePath, content, 'utf-8')
+            }
+            return keys
+        }
+
+        /**
+         * Warns about schemas that match no action and, with `client.validate`, actions without a schema
+         */
+        function warnSchemaKeys(
+            actionKeys: ActionKey[],
+            schemaKeys: ActionKey[],
+            logger: AstroIntegrationLogger,
+        ) {
+            const diagnostics = validateSchemaKeys(actionKeys, schemaKeys, {
+                requireSchemas: options.client?.validate ?? false,
+            })
+            if (diagnostics.length > 0) {
+                logger.warn(
+                    `The schemas don't match the actions:\n${diagnostics.map((d) => `  - ${d}`).join('\n')}`,
+                )
+            }
+        }
+
+        /**
+         * Lists the actions whose method can't be read statically, `astro build` can't load them to find out
+         */
+        function warnUnknownMethods(
+            keys: ActionKey[],
+            logger: AstroIntegrationLogger,
+        ) {
+            const unknown = keys.filter((key) => !key.group && !key.method)
+            if (unknown.length > 0) {
+                logger.warn(
+                    `Could not read the method of these actions, \`actions\` calls them with POST:\n${unknown.map((key) => `  - ${key.location}`).join('\n')}\nDeclare GET actions with a literal \`method: 'GET'\` in the file that exports them, or call them through \`honoClient\`.`,
+                )
+            }
+        }
+
         return {
             name,
             hooks: {
                 'astro:config:setup': async (params) => {
-                    const { logger, injectRoute, createCodegenDir, config } =
-                        params
-                    const root = config.root.pathname
+                    const {
+                        logger,
+                        injectRoute,
+                        createCodegenDir,
+                        config,
+                        command,
+                    } = params
+                    root = config.root.pathname
+                    pagesDir = new URL('pages/', config.srcDir).pathname
 
-                    // 2) Discover user's actions file(s) in the CONSUMER project
-                    const files = await glob(ACTION_PATTERNS, {
-                        cwd: root,
-                        expandDirectories: false,
-                        absolute: true,
-                    })
-                    const actionsPath = options.actionsPath ?? files[0] // only need the first file
+                    // Create the directory for the generated files
+                    const codeGenDir = createCodegenDir()
 
-                    if (!actionsPath) {
-                        logger.warn(
-                            `No actions found. Create one of:\n${ACTION_PATTERNS.map((p) => ` - ${p}`).join('\n')}`,
+                    // 2) Discover user's actions file(s) in the CONSUMER project
+                    let resolvedActionsPath: string
+                    // keys read from the source, the dev server checks the loaded actions instead
+                    let staticKeys: ActionKey[] | undefined
+                    if (options.actionsDir) {
+                        actionsDir = path.resolve(root, options.actionsDir)
+                        actionsModulePath = path.join(
+                            codeGenDir.pathname,
+                            'actions.ts',
                         )
-                        return
-                    }
+                        const keys = await writeActionsModule()
+                        staticKeys = keys
+                        if (command === 'build' && keys) {
+                            warnUnknownMethods(keys, logger)
+                        }
+                        resolvedActionsPath = actionsModulePath
+
+                        logger.info(
+                            `Found actions directory: ${path.relative(root, actionsDir)}`,
+                        )
+                    } else {
+                        const files = await glob(ACTION_PATTERNS, {
+                            cwd: root,
+                            expandDirectories: false,
+                            absolute: true,
+                        })
+                        const actionsPath = options.actionsPath ?? files[0] // only need the first file
 
-                    const resolvedActionsPath =
-                        baseResolver.resolve(actionsPath)
+                        if (!actionsPath) {
+                            logger.warn(
+                                `No actions found. Create one of:\n${ACTION_PATTERNS.map((p) => ` - ${p}`).join('\n')}`,
+                            )
+                            return
+                        }
 
-                    params.addWatchFile(resolvedActionsPath)
+                        resolvedActionsPath = baseResolver.resolve(actionsPath)
 
-                    logger.info(
-                        `Found actions: ${path.relative(root, resolvedActionsPath)}`,
-                    )
+                        params.addWatchFile(resolvedActionsPath)
 
-                    // Create the directory for the generated files
-                    const codeGenDir = createCodegenDir()
+                        const relativeActionsPath = path.relative(
+                            root,
+                            resolvedActionsPath,
+                        )
+                        logger.info(`Found actions: ${relativeActionsPath}`)
+
+                        const actionKeys = readActionKeys(
+                            await fs
+                                .readFile(resolvedActionsPath, 'utf-8')
+                                .catch(() => ''),
+                            relativeActionsPath,
+                        )
+                        actionsFile = resolvedActionsPath
+                        staticKeys = actionKeys
+                        getActions = getGetActions(actionKeys ?? [])
+                        if (actionKeys) {
+                            await assertValidActionKeys(
+                                actionKeys,
+                                relativeActionsPath,
+                            )
+                            if (command === 'build') {
+                                warnUnknownMethods(actionKeys, logger)
+                            }
+                        } else {
+                            logger.warn(
+                                `Could not read the keys of honoActions in ${relativeActionsPath} (it is not an object literal or can't be parsed), they are only validated by astro dev and \`actions\` calls them with POST in \`astro build\``,
+                            )
+                        }
+                    }
 
                     // 3) Generate router that lazy-imports the user's actions at runtime
                     const routerPathAbs = path.join(
@@ -125,15 +491,38 @@ export default defineIntegration({
                     )
 
                     // dont need it to start with a / with fast-glob
-                    const relFromGenToActions = path
-                        .relative(codeGenDir.pathname, resolvedActionsPath)
-                        .split(path.sep)
-                        .join('/')
+                    const relFromGenToActions = toImportPath(
+                        path.relative(codeGenDir.pathname, resolvedActionsPath),
+                    )
+
+                    // user modules are imported by the router
+                    const importFromCodegenDir = (modulePath: string) =>
+                        toImportPath(
+                            path.relative(
+                                codeGenDir.pathname,
+                                path.resolve(root, modulePath),
+                            ),
+                        )
 
                     // Generate the router
                     const routerContent = generateRouter({
                         basePath,
                         relativeActionsPath: relFromGenToActions,
+                        middleware: {
+                            cors: options.cors,
+                            logger:
+                                typeof options.logger === 'object'
+                                    ? {
+                                          sink: importFromCodegenDir(
+                                              options.logger.sink,
+                                          ),
+                                      }
+                                    : options.logger,
+                            prettyJSON: options.prettyJSON,
+                            middlewarePath:
+                                options.middlewarePath &&
+                                importFromCodegenDir(options.middlewarePath),
+                        },
                     })
 
                     await fs.writeFile(routerPathAbs, routerContent, 'utf-8')
@@ -154,18 +543,17 @@ export default defineIntegration({
                         return
                     }
 
-                    // Generate the astro handler
-                    let astroHandlerContent: string
-
-                    if (isSupportedAdapter(adapter)) {
-                        astroHandlerContent = generateAstroHandler(adapter)
-                    } else {
-                        throw new Error(`Unsupported adapter: ${adapter}`, {
-                            cause: `Only ${SUPPORTED_ADAPTERS.join(
-                                ', ',
-                            )} are supported for now`,
-                        })
+                    // Generate the astro handler, user templates win over the built-in ones
+                    const handlerTemplate = options.adapterHandler?.(adapter)
+                    if (!handlerTemplate && !isSupportedAdapter(adapter)) {
+                        logger.warn(
+                            `No handler template for adapter ${adapter}, using the generic handler. Use the \`adapterHandler\` option to register one.`,
+                        )
                     }
+                    const astroHandlerContent = generateAstroHandler(
+                        adapter,
+                        handlerTemplate,
+                    )
 
                     await fs.writeFile(
                         astroHandlerPathAbs,
@@ -178,15 +566,101 @@ export default defineIntegration({
                         codeGenDir.pathname,
                         'client.ts',
                     )
-                    const clientContent = generateHonoClient(config.server.port)
-                    await fs.writeFile(clientPathAbs, clientContent, 'utf-8')
+                    clientPath = clientPathAbs
+                    devPort = config.server.port
+                    await writeClient()
+
+                    // input schemas for client-side validation, without the handlers
+                    const schemasPathAbs = path.join(
+                        codeGenDir.pathname,
+                        'schemas.ts',
+                    )
+                    const [schemasPath] = options.schemasPath
+                        ? [path.resolve(root, options.schemasPath)]
+                        : await glob(SCHEMA_PATTERNS, {
+                              cwd: root,
+                              expandDirectories: false,
+                              absolute: true,
+                          })
+                    schemasFile = schemasPath
+                    if (schemasPath) {
+                        const relativeSchemasPath = path.relative(
+                            root,
+                            schemasPath,
+                        )
+                        logger.info(`Found schemas: ${relativeSchemasPath}`)
+                        // the dev server checks the loaded modules once it has started
+                        if (command !== 'dev') {
+                            const schemaKeys = readSchemaKeys(
+                                await fs
+                                    .readFile(schemasPath, 'utf-8')
+                                    .catch(() => ''),
+                                relativeSchemasPath,
+                            )
+                            if (!schemaKeys) {
+                                logger.warn(
+                                    `Could not read the exports of ${relativeSchemasPath} (\`export *\`, \`export { ... }\` or can't be parsed), they are only checked against the actions by astro dev`,
+                                )
+                            } else if (staticKeys) {
+                                warnSchemaKeys(staticKeys, schemaKeys, logger)
+                            }
+                        }
+                    } else if (options.client?.validate) {
+                        logger.warn(
+                            `\`client.validate\` is set but no schemas module was found. Create one of:\n${SCHEMA_PATTERNS.map((p) => ` - ${p}`).join('\n')}`,
+                        )
+                    }
+                    await fs.writeFile(
+                        schemasPathAbs,
+                        generateSchemasModule(
+                            schemasPath &&
+                                toImportPath(
+                                    path.relative(
+                                        codeGenDir.pathname,
+                                        schemasPath.replace(/\.[mc]?ts$/, ''),
+                                    ),
+                                ),
+                        ),
+                        'utf-8',
+                    )
+
+                    // server client calls the router in-process, with the same env as the API handler
+                    const serverClientPathAbs = path.join(
+                        codeGenDir.pathname,
+                        'server.ts',
+                    )
+                    const serverClientContent = generateServerClient(
+                        adapter,
+                        handlerTemplate,
+                    )
+                    await fs.writeFile(
+                        serverClientPathAbs,
+                        serverClientContent,
+                        'utf-8',
+                    )
 
                     addVirtualImports(params, {
                         name,
-                        imports: {
-                            [VIRTUAL_MODULE_ID_CLIENT]: `export * from '${clientPathAbs}';`,
-                            [VIRTUAL_MODULE_ID_ROUTER]: `export * from '${routerPathAbs}';`,
-                        },
+                        imports: [
+                            {
+                                id: VIRTUAL_MODULE_ID_CLIENT,
+                                content: `export * from '${clientPathAbs}';`,
+                            },
+                            {
+                                id: VIRTUAL_MODULE_ID_ROUTER,
+                                content: `export * from '${routerPathAbs}';`,
+                            },
+                            {
+                                id: VIRTUAL_MODULE_ID_SCHEMAS,
+                                content: `export * from '${schemasPathAbs}';`,
+                            },
+                            {
+                                // bundles the router, so it can't be imported in the browser
+                                id: VIRTUAL_MODULE_ID_SERVER,
+                                content: `export * from '${serverClientPathAbs}';`,
+                                context: 'server',
+                            },
+                        ],
                     })
 
                     logger.info('✅ Hono Actions virtual imports added')
@@ -203,6 +677,107 @@ export default defineIntegration({
                     )
                 },
 
+                'astro:server:setup': ({ server, logger }) => {
+                    const file = actionsFile ?? actionsModulePath
+                    if (file) {
+                        // the loaded actions tell the keys and methods the source can't (imported actions and groups, computed keys)
+                        checkLoadedActions = async () => {
+                            const relativeFile = path.relative(root, file)
+                            let keys: ActionKey[]
+                            try {
+                                const mod = await server.ssrLoadModule(file)
+                                keys = readModuleActionKeys(
+                                    mod.honoActions ?? {},
+                                    relativeFile,
+                                )
+                            } catch (error) {
+                                // the error is shown again when a request loads the actions
+                                logger.debug(
+                                    `Could not load ${relativeFile} to check its actions: ${error}`,
+                                )
+                                return
+                            }
+                            try {
+                                getActions = getGetActions(keys)
+                                await writeClient()
+                                // the files of `actionsDir` are checked when the actions module is written
+                                if (actionsFile) {
+                                    await assertValidActionKeys(
+                                        keys,
+                                        relativeFile,
+                                    )
+                                }
+                            } catch (error) {
+                                logger.error(
+                                    error instanceof Error
+                                        ? error.message
+                                        : String(error),
+                                )
+                            }
+                            if (schemasFile) {
+                                const relativeSchemasFile = path.relative(
+                                    root,
+                                    schemasFile,
+                                )
+                                try {
+                                    const schemas =
+                                        await server.ssrLoadModule(schemasFile)
+                                    warnSchemaKeys(
+                                        keys,
+                                        readModuleSchemaKeys(
+                                            schemas,
+                                            relativeSchemasFile,
+                                        ),
+                                        logger,
+                                    )
+                                } catch (error) {
+                                    logger.debug(
+                                        `Could not load ${relativeSchemasFile} to check its schemas: ${error}`,
+                                    )
+                                }
+                            }
+                        }
+                        server.watcher.on('change', (changed) => {
+                            if (changed === file || changed === schemasFile) {
+                                checkLoadedActions?.()
+                            }
+                        })
+                    }
+
+                    const dir = actionsDir
+                    if (!dir) {
+                        return
+                    }
+                    // pick up actions added, changed (e.g. their method) or removed while the dev server runs
+                    const onChange = async (file: string) => {
+                        const relativeFile = path.relative(dir, file)
+                        if (
+                            relativeFile.startsWith('..') ||
+                            path.isAbsolute(relativeFile) ||
+                            !isActionFile(relativeFile)
+                        ) {
+                            return
+                        }
+                        try {
+                            await writeActionsModule()
+                        } catch (error) {
+                            logger.error(
+                                error instanceof Error
+                                    ? error.message
+                                    : String(error),
+                            )
+                        }
+                    }
+                    server.watcher.add(dir)
+                    server.watcher.on('add', onChange)
+                    server.watcher.on('change', onChange)
+                    server.watcher.on('unlink', onChange)
+                },
+
+                'astro:server:start': async () => {
+                    await checkLoadedActions?.()
+                },
+
                 'astro:config:done': async ({
                     injectTypes,
                     config,
@@ -226,24 +801,67 @@ export {}
 declare module '@gnosticdev/hono-actions/client' {
     export const honoClient: typeof import('./client').honoClient
     export const parseResponse: typeof import('./client').parseResponse
+    export const readActionStream: typeof import('./client').readActionStream
+    export { HonoActionError } from '@gnosticdev/hono-actions/actions'
+    export const isHonoActionError: typeof import('./client').isHonoActionError
+    export const toHonoActionError: typeof import('./client').toHonoActionError
+    export const createHonoClient: typeof import('./client').createHonoClient
+    export type HonoClientOptions = import('./client').HonoClientOptions
+    export const actions: typeof import('./client').actions
+    export const createActions: typeof import('./client').createActions
+    export const formAction: typeof import('./client').formAction
+    export type FormActionPath = import('./client').FormActionPath
+}
+declare module '@gnosticdev/hono-actions/server' {
+    export const createServerClient: typeof import('./server').createServerClient
+}
+declare module '@gnosticdev/hono-actions/schemas' {
+    const schemas: typeof import('./schemas')
+    export = schemas
 }
 `
                     if (!config.adapter?.name) {
                         logger.warn('No adapter found...')
                         return
                     }
-                    if (config.adapter.name !== '@astrojs/cloudflare') {
-                        logger.warn('Unsupported adapter...')
-                        return
-                    }
 
-                    // add cloudflare types
-                    clientTypes += `
+                    switch (config.adapter.name) {
+                        case '@astrojs/cloudflare':
+                            // add cloudflare types
+                            clientTypes += `
     type Runtime = import('@astrojs/cloudflare').Runtime<Env>
     declare namespace App {
         interface Locals extends Runtime {}
     }
 `
+                            break
+                        case '@astrojs/node':
+                        case '@astrojs/vercel':
+                        case '@astrojs/vercel/serverless':
+                        case '@astrojs/vercel/edge':
+                            // no platform Env, declare one so users can type process.env bindings on it
+                            clientTypes += `
+    interface Env {}
+`
+                            break
+                        case '@astrojs/netlify':
+                        case '@astrojs/netlify/functions':
+                        case '@astrojs/netlify/edge-functions':
+                            // add netlify types, bindings come from Netlify.env
+                            clientTypes += `
+    interface Env {}
+    type NetlifyLocals = import('@astrojs/netlify').NetlifyLocals
+    declare namespace App {
+        interface Locals extends NetlifyLocals {}
+    }
+`
+                            break
+                        default:
+                            // generic handler, bindings are read from process.env (if available)
+                            clientTypes += `
+    interface Env {}
+`
+                    }
 
                     injectTypes({
                         filename: 'types.d.ts',
@@ -254,3 +872,11 @@ declare module '@gnosticdev/hono-actions/client' {
         }
     },
 })
+
+/**
+ * Relative paths are used as import specifiers in the generated files
+ */
+function toImportPath(relativePath: string) {
+    const importPath = relativePath.split(path.sep).join('/')
+    return importPath.startsWith('.') ? importPath : `./${importPath}`
+}
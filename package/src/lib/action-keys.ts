@@ -0,0 +1,795 @@
+import { glob } from 'tinyglobby'
+import type { ActionMethod } from '../actions.js'
+
+/**
+ * A key of `honoActions` (or a file of the actions directory) and where it is defined
+ */
+export interface ActionKey {
+    /**
+     * Keys from the root of `honoActions`, e.g. `['billing', 'createInvoice']`
+     */
+    route: string[]
+    /**
+     * Where the key is defined, e.g. `src/hono.ts:12:5`
+     */
+    location: string
+    /**
+     * Groups are only checked for URL-safe keys, they have no route of their own
+     */
+    group?: boolean
+    /**
+     * Method of the action, `undefined` when it can't be read (e.g. an imported action)
+     */
+    method?: ActionMethod
+}
+
+/**
+ * A page of `src/pages`, dynamic segments are kept as is, e.g. `['api', '[id]']`
+ */
+export interface PageRoute {
+    route: string[]
+    file: string
+}
+
+/**
+ * Reads the keys of the `honoActions` object literal without running the actions file.
+ * Groups declared as object literals in the same file (`billing: billingActions`) are read too,
+ * keys that can't be known statically (computed keys, spreads, imported groups) are skipped.
+ *
+ * @param source - Source of the actions file
+ * @param file - Path of the actions file used in the locations
+ * @returns `undefined` when `honoActions` is not declared as an object literal, or can't be parsed
+ */
+export function readActionKeys(
+    source: string,
+    file: string,
+): ActionKey[] | undefined {
+    const start = findObjectLiteral(source, 'honoActions')
+    if (start === undefined) {
+        return undefined
+    }
+
+    const keys: ActionKey[] = []
+    try {
+        readObject(
+            source,
+            start,
+            [],
+            ['honoActions'],
+            (route, index, group, method) => {
+                keys.push({
+                    route,
+                    location: `${file}:${getLineColumn(source, index)}`,
+                    group,
+                    ...(method && { method }),
+                })
+            },
+        )
+    } catch {
+        return undefined
+    }
+    return keys
+}
+
+/**
+ * Reads the keys of the loaded `honoActions` object, e.g. from the dev server.
+ * Unlike {@link readActionKeys} this sees every key, locations name the key instead of a line.
+ *
+ * @param actions - The `honoActions` export of the actions file
+ * @param file - Path of the actions file used in the locations
+ */
+export function readModuleActionKeys(
+    actions: object,
+    file: string,
+    prefix: string[] = [],
+): ActionKey[] {
+    return Object.entries(actions).flatMap(([key, value]) => {
+        const route = [...prefix, key]
+        const location = `${file} (honoActions.${route.join('.')})`
+        // duck typed like `mountActions`, other objects are groups
+        if (
+            typeof value !== 'object' ||
+            value === null ||
+            typeof value.fetch === 'function'
+        ) {
+            const method: ActionMethod = value?.routes?.some(
+                (route: { method: string }) => route.method === 'GET',
+            )
+                ? 'GET'
+                : 'POST'
+            return [{ route, location, group: false, method }]
+        }
+        return [
+            { route, location, group: true },
+            ...readModuleActionKeys(value, file, route),
+        ]
+    })
+}
+
+/**
+ * Routes of the GET actions, e.g. `['search', 'billing/listInvoices']`, the generated actions proxy calls them with GET
+ *
+ * @param keys - The keys of the actions, see {@link readActionKeys}
+ */
+export function getGetActions(keys: ActionKey[]) {
+    return keys
+        .filter((key) => !key.group && key.method === 'GET')
+        .map((key) => key.route.join('/'))
+}
+
+/**
+ * Reads the schemas exported by the schemas module without running it, under the keys of the actions they validate:
+ * `export const signup = z.object(...)` is `signup`, the keys of `export const billing = { ... }` are nested under `billing`.
+ *
+ * @param source - Source of the schemas module
+ * @param file - Path of the schemas module used in the locations
+ * @returns `undefined` when the exports can't all be read, e.g. `export * from` or `export { signup }`
+ */
+export function readSchemaKeys(
+    source: string,
+    file: string,
+): ActionKey[] | undefined {
+    if (/\bexport\s*(?:\*|\{|default\b)/.test(source)) {
+        return undefined
+    }
+
+    const keys: ActionKey[] = []
+    const onKey = (route: string[], index: number, group: boolean) => {
+        keys.push({
+            route,
+            location: `${file}:${getLineColumn(source, index)}`,
+            group,
+        })
+    }
+    try {
+        for (const match of source.matchAll(
+            /\bexport\s+(?:const|let|var)\s+([A-Za-z_$][\w$]*)\b[^=]*=\s*/g,
+        )) {
+            const name = match[1] as string
+            const start = match.index + match[0].length
+            const keyIndex = match.index + match[0].indexOf(name)
+            onKey([name], keyIndex, source[start] === '{')
+            if (source[start] === '{') {
+                readObject(source, start, [name], [name], onKey)
+            }
+        }
+    } catch {
+        return undefined
+    }
+    return keys
+}
+
+/**
+ * Reads the schemas of the loaded schemas module, e.g. from the dev server. Other exports (helpers, constants) are skipped.
+ *
+ * @param schemas - The schemas module
+ * @param file - Path of the schemas module used in the locations
+ */
+export function readModuleSchemaKeys(
+    schemas: object,
+    file: string,
+    prefix: string[] = [],
+): ActionKey[] {
+    return Object.entries(schemas).flatMap(([key, value]) => {
+        const route = [...prefix, key]
+        const location = `${file} (${route.join('.')})`
+        if (typeof value !== 'object' || value === null) {
+            return []
+        }
+        if ('~standard' in value) {
+            return [{ route, location, group: false }]
+        }
+        return [
+            { route, location, group: true },
+            ...readModuleSchemaKeys(value, file, route),
+        ]
+    })
+}
+
+/**
+ * Checks that every schema of the schemas module validates an action, and with `requireSchemas` that every action has one.
+ * Actions whose method can't be read may be imported groups, the schemas under them are not reported.
+ *
+ * @param actionKeys - The keys of the actions, see {@link readActionKeys}
+ * @param schemaKeys - The keys of the schemas, see {@link readSchemaKeys}
+ * @param opts.requireSchemas - Report actions without a schema, e.g. when `client.validate` is set
+ * @returns One message per problem, empty when the keys match
+ */
+export function validateSchemaKeys(
+    actionKeys: ActionKey[],
+    schemaKeys: ActionKey[],
+    opts: { requireSchemas: boolean },
+): string[] {
+    const actions = actionKeys.filter((key) => !key.group)
+    const schemas = schemaKeys.filter((key) => !key.group)
+    const isSame = (a: string[], b: string[]) =>
+        a.length === b.length && a.every((part, index) => part === b[index])
+    const isInside = (route: string[], parent: ActionKey) =>
+        !parent.method &&
+        route.length > parent.route.length &&
+        parent.route.every((part, index) => part === route[index])
+
+    const diagnostics = schemas
+        .filter(
+            (schema) =>
+                !actions.some(
+                    (action) =>
+                        isSame(action.route, schema.route) ||
+                        isInside(schema.route, action),
+                ),
+        )
+        .map(
+            (schema) =>
+                `${schema.location} ${schema.route.join('.')} matches no action, check its name`,
+        )
+    if (opts.requireSchemas) {
+        for (const action of actions) {
+            const hasSchema = schemas.some(
+                (schema) =>
+                    isSame(action.route, schema.route) ||
+                    isInside(schema.route, action),
+            )
+            if (!hasSchema) {
+                diagnostics.push(
+                    `${action.location} ${action.route.join('.')} has no schema, its input is not validated before sending`,
+                )
+            }
+        }
+    }
+    return diagnostics
+}
+
+/**
+ * Reads the `method` of the action exported by default, e.g. by a file of the actions directory
+ *
+ * @param source - Source of the action file
+ * @returns `undefined` when the action can't be read, e.g. when it is imported
+ */
+export function readDefaultExportMethod(source: string) {
+    const match = /\bexport\s+default\s+/.exec(source)
+    return match
+        ? readActionMethod(source, match.index + match[0].length)
+        : undefined
+}
+
+/**
+ * Reads the method of the action at `start`: the `method` option of a `defineHonoAction(...)` (or `defineHonoStreamAction(...)`) call,
+ * or the routes of a Hono app (`new Hono().get(...)`, `app.get(...)`). Identifiers are followed to their declaration in the same file.
+ *
+ * @returns `undefined` when the method can't be known statically, e.g. an imported action or a `method` that is not a literal
+ */
+function readActionMethod(
+    source: string,
+    start: number,
+    declarations: string[] = [],
+): ActionMethod | undefined {
+    const call = /^define\w*Action\b/.exec(source.slice(start))
+    if (call) {
+        const open = skipTypeArguments(source, start + call[0].length)
+        const optionsStart = skipTrivia(source, open + 1)
+        return source[open] === '(' && source[optionsStart] === '{'
+            ? readMethodOption(source, optionsStart)
+            : undefined
+    }
+
+    const app = /^new\s+Hono\b/.exec(source.slice(start))
+    const identifier = app
+        ? undefined
+        : /^[A-Za-z_$][\w$]*/.exec(source.slice(start))?.[0]
+    if (!app && !identifier) {
+        return undefined
+    }
+    let i = start + (app?.[0] ?? identifier ?? '').length
+    if (app) {
+        i = skipTypeArguments(source, i)
+        i = source[i] === '(' ? skipBalanced(source, i) : i
+    }
+    const calls = readCalls(source, i)
+    if (identifier) {
+        // routes added to the app by other statements, e.g. `app.get('/', ...)`
+        const statements = new RegExp(
+            `(?<![\\w$.])${identifier.replace(/\$/g, '\\$')}\\s*\\.\\s*([\\w$]+)\\s*[<(]`,
+            'g',
+        )
+        for (const match of source.matchAll(statements)) {
+            calls.push(match[1] as string)
+        }
+    }
+
+    const routes = calls.filter((name) => ROUTE_METHODS.includes(name))
+    if (routes.length > 0) {
+        return getAppMethod(routes)
+    }
+    if (!identifier || declarations.includes(identifier)) {
+        return undefined
+    }
+    const declaration = findDeclaration(source, identifier)
+    return declaration === undefined
+        ? undefined
+        : readActionMethod(source, declaration, [...declarations, identifier])
+}
+
+// methods of a Hono app that add routes
+const ROUTE_METHODS = [
+    'get',
+    'post',
+    'put',
+    'delete',
+    'patch',
+    'options',
+    'all',
+    'on',
+    'route',
+    'mount',
+]
+
+/**
+ * The method the actions proxy calls an app with, like {@link readModuleActionKeys}: `GET` when it has a GET route.
+ * Apps with routes for any method (`all`, `on`, sub apps) can't be known statically.
+ */
+function getAppMethod(routes: string[]): ActionMethod | undefined {
+    if (routes.includes('get')) {
+        return 'GET'
+    }
+    if (
+        routes.some((route) => ['all', 'on', 'route', 'mount'].includes(route))
+    ) {
+        return undefined
+    }
+    return routes.includes('post') ? 'POST' : undefined
+}
+
+/**
+ * Names of the methods called in the chain at `start`, e.g. `['use', 'get']` for `.use(logger()).get('/', handler)`
+ */
+function readCalls(source: string, start: number) {
+    const calls: string[] = []
+    let i = skipTrivia(source, start)
+    while (source[i] === '.') {
+        i = skipTrivia(source, i + 1)
+        const name = /^[\w$]+/.exec(source.slice(i))?.[0]
+        if (!name) {
+            break
+        }
+        i = skipTypeArguments(source, i + name.length)
+        if (source[i] !== '(') {
+            break
+        }
+        calls.push(name)
+        i = skipTrivia(source, skipBalanced(source, i))
+    }
+    return calls
+}
+
+/**
+ * Reads the `method` of the options object starting at `start`, options without it are `POST`.
+ * A `method` that is not a string literal (or an identifier initialized with one), or a spread, makes it unknown.
+ */
+function readMethodOption(
+    source: string,
+    start: number,
+): ActionMethod | undefined {
+    let spread = false
+    let i = start + 1
+    while (i < source.length) {
+        i = skipTrivia(source, i)
+        if (source[i] === ',') {
+            i++
+            continue
+        }
+        const end = skipExpression(source, i)
+        if (end === i) {
+            break
+        }
+        const property = source.slice(i, end)
+        spread ||= property.startsWith('...')
+        const option = /^['"]?method['"]?\s*(?=:|$)/.exec(property)
+        if (option) {
+            const colon = skipTrivia(source, i + option[0].length)
+            // shorthand `method` reads the identifier `method`
+            return readMethodLiteral(
+                source,
+                source[colon] === ':' ? skipTrivia(source, colon + 1) : i,
+            )
+        }
+        i = end
+    }
+    return spread ? undefined : 'POST'
+}
+
+/**
+ * Reads the `'GET'` or `'POST'` literal at `start`, following an identifier to its declaration
+ */
+function readMethodLiteral(
+    source: string,
+    start: number,
+    followed = false,
+): ActionMethod | undefined {
+    const expression = source.slice(start)
+    const literal = /^(['"`])(GET|POST)\1/.exec(expression)?.[2]
+    if (literal) {
+        return literal as ActionMethod
+    }
+    const identifier = /^[A-Za-z_$][\w$]*/.exec(expression)?.[0]
+    const declaration =
+        identifier && !followed
+            ? findDeclaration(source, identifier)
+            : undefined
+    return declaration === undefined
+        ? undefined
+        : readMethodLiteral(source, declaration, true)
+}
+
+/**
+ * Skips the type arguments at `start` (e.g. `<HonoEnv>` of `defineHonoAction<HonoEnv>(...)`), returns the index after them and the whitespace
+ */
+function skipTypeArguments(source: string, start: number) {
+    let i = skipTrivia(source, start)
+    if (source[i] !== '<') {
+        return i
+    }
+    let depth = 0
+    while (i < source.length) {
+        const next = skipLiteral(source, i)
+        if (next !== undefined) {
+            i = next
+            continue
+        }
+        const char = source[i]
+        if (char === '<') {
+            depth++
+        } else if (char === '>' && source[i - 1] !== '=') {
+            depth--
+            if (depth === 0) {
+                return skipTrivia(source, i + 1)
+            }
+        }
+        i++
+    }
+    return i
+}
+
+/**
+ * Index of the value a top-level `const`, `let` or `var` is initialized with
+ */
+function findDeclaration(source: string, name: string) {
+    const match = new RegExp(
+        `\\b(?:const|let|var)\\s+${name.replace(/\$/g, '\\$')}\\b[^=]*=\\s*`,
+    ).exec(source)
+    return match ? match.index + match[0].length : undefined
+}
+
+/**
+ * Index of the object literal a top-level `const`, `let` or `var` is initialized with
+ */
+function findObjectLiteral(source: string, name: string) {
+    const start = findDeclaration(source, name)
+    return start !== undefined && source[start] === '{' ? start : undefined
+}
+
+/**
+ * Reads the keys of the object literal starting at `start`, returns the index after it
+ *
+ * @param declarations - Names of the objects being read, a group can't contain itself
+ */
+function readObject(
+    source: string,
+    start: number,
+    prefix: string[],
+    declarations: string[],
+    onKey: (
+        route: string[],
+        index: number,
+        group: boolean,
+        method?: ActionMethod,
+    ) => void,
+): number {
+    let i = start + 1
+    while (true) {
+        i = skipTrivia(source, i)
+        const char = source[i]
+        if (char === undefined) {
+            throw new Error('Unexpected end of object')
+        }
+        if (char === '}') {
+            return i + 1
+        }
+        if (char === ',') {
+            i++
+            continue
+        }
+        if (source.startsWith('...', i)) {
+            i = skipExpression(source, i + 3)
+            continue
+        }
+
+        const keyIndex = i
+        let key: string | undefined
+        if (char === '"' || char === "'") {
+            i = skipString(source, i)
+            key = source.slice(keyIndex + 1, i - 1)
+        } else if (char === '[') {
+            // computed key
+            i = skipBalanced(source, i)
+        } else {
+            const identifier = /^[\w$]+/.exec(source.slice(i))?.[0]
+            if (!identifier) {
+                throw new Error(`Unexpected ${char} in object`)
+            }
+            key = identifier
+            i += identifier.length
+        }
+
+        i = skipTrivia(source, i)
+        if (source[i] === ':') {
+            i = skipTrivia(source, i + 1)
+            if (source[i] === '{' && key !== undefined) {
+                onKey([...prefix, key], keyIndex, true)
+                i = readObject(source, i, [...prefix, key], declarations, onKey)
+            } else {
+                const valueEnd = skipExpression(source, i)
+                if (key !== undefined) {
+                    readValue(i, valueEnd, [...prefix, key], keyIndex)
+                }
+                i = valueEnd
+            }
+        } else if (source[i] === '(' || source[i] === '<') {
+            // method, not an action
+            i = skipExpression(source, i)
+        } else if (key !== undefined) {
+            // shorthand
+            readValue(keyIndex, i, [...prefix, key], keyIndex)
+        }
+    }
+
+    function readValue(
+        start: number,
+        end: number,
+        route: string[],
+        index: number,
+    ) {
+        const value = source.slice(start, end).trim()
+        const groupStart = /^[A-Za-z_$][\w$]*$/.test(value)
+            ? findObjectLiteral(source, value)
+            : undefined
+        if (groupStart === undefined || declarations.includes(value)) {
+            onKey(route, index, false, readActionMethod(source, start))
+            return
+        }
+        onKey(route, index, true)
+        readObject(source, groupStart, route, [...declarations, value], onKey)
+    }
+}
+
+/**
+ * Skips to the `,` or closing bracket that ends the expression starting at `start`
+ */
+function skipExpression(source: string, start: number, stopAtComma = true) {
+    let depth = 0
+    let i = start
+    while (i < source.length) {
+        const next = skipLiteral(source, i)
+        if (next !== undefined) {
+            i = next
+            continue
+        }
+        const char = source[i] as string
+        if ('([{'.includes(char)) {
+            depth++
+        } else if (')]}'.includes(char)) {
+            if (depth === 0) {
+                return i
+            }
+            depth--
+        } else if (char === ',' && depth === 0 && stopAtComma) {
+            return i
+        }
+        i++
+    }
+    return i
+}
+
+/**
+ * Skips the brackets opened at `start`, returns the index after the closing one
+ */
+function skipBalanced(source: string, start: number) {
+    return skipExpression(source, start + 1, false) + 1
+}
+
+function skipTrivia(source: string, start: number) {
+    let i = start
+    while (i < source.length) {
+        if (/\s/.test(source[i] as string)) {
+            i++
+            continue
+        }
+        const next =
+            source.startsWith('//', i) || source.startsWith('/*', i)
+                ? skipLiteral(source, i)
+                : undefined
+        if (next === undefined) {
+            break
+        }
+        i = next
+    }
+    return i
+}
+
+/**
+ * Skips comments, strings, template literals and regular expressions, `undefined` when there is none at `start`
+ */
+function skipLiteral(source: string, start: number) {
+    if (source.startsWith('//', start)) {
+        const end = source.indexOf('\n', start)
+        return end === -1 ? source.length : end + 1
+    }
+    if (source.startsWith('/*', start)) {
+        const end = source.indexOf('*/', start + 2)
+        return end === -1 ? source.length : end + 2
+    }
+    const char = source[start]
+    if (char === '"' || char === "'") {
+        return skipString(source, start)
+    }
+    if (char === '`') {
+        return skipTemplate(source, start)
+    }
+    if (char === '/' && isRegexStart(source, start)) {
+        return skipRegex(source, start)
+    }
+    return undefined
+}
+
+/**
+ * A `/` starts a regular expression unless it follows a value, where it divides
+ */
+function isRegexStart(source: string, start: number) {
+    const before = source.slice(0, start).trimEnd()
+    return (
+        before === '' ||
+        /[(,=:[!&|?{};+\-*%<>~^]$/.test(before) ||
+        /\b(?:return|typeof|case|do|else|in|of|void|yield|await)$/.test(before)
+    )
+}
+
+function skipRegex(source: string, start: number) {
+    let i = start + 1
+    let inClass = false
+    while (i < source.length && source[i] !== '\n') {
+        const char = source[i]
+        if (char === '\\') {
+            i += 2
+            continue
+        }
+        if (char === '[') {
+            inClass = true
+        } else if (char === ']') {
+            inClass = false
+        } else if (char === '/' && !inClass) {
+            // the flags are skipped like identifiers
+            return i + 1
+        }
+        i++
+    }
+    return i
+}
+
+function skipString(source: string, start: number) {
+    const quote = source[start]
+    let i = start + 1
+    while (i < source.length && source[i] !== quote) {
+        i += source[i] === '\\' ? 2 : 1
+    }
+    return i + 1
+}
+
+function skipTemplate(source: string, start: number) {
+    let i = start + 1
+    while (i < source.length) {
+        if (source[i] === '\\') {
+            i += 2
+        } else if (source[i] === '`') {
+            return i + 1
+        } else if (source.startsWith('${', i)) {
+            i = skipBalanced(source, i + 1)
+        } else {
+            i++
+        }
+    }
+    return i
+}
+
+function getLineColumn(source: string, index: number) {
+    const lines = source.slice(0, index).split('\n')
+    return `${lines.length}:${(lines.at(-1)?.length ?? 0) + 1}`
+}
+
+const PAGE_EXTENSIONS = ['astro', 'md', 'mdx', 'html', 'js', 'ts', 'mjs', 'mts']
+
+/**
+ * Routes of the pages of `src/pages`, files and folders starting with `_` are not routed by Astro
+ *
+ * @param pagesDir - Absolute path of the pages directory
+ */
+export async function findPageRoutes(pagesDir: string): Promise<PageRoute[]> {
+    const files = await glob(`**/*.{${PAGE_EXTENSIONS.join(',')}}`, {
+        cwd: pagesDir,
+    })
+    return files
+        .filter((file) => !file.split('/').some((part) => part.startsWith('_')))
+        .map((file) => {
+            const route = file.replace(/\.[^./]+$/, '').split('/')
+            if (route.at(-1) === 'index') {
+                route.pop()
+            }
+            return { route, file }
+        })
+}
+
+// unreserved URL characters, not starting with a dot (`.` and `..` are path segments)
+const URL_SAFE_KEY = /^[\w~-][\w.~-]*$/
+
+/**
+ * Checks that the keys are URL-safe, don't share a route (routes are compared case-insensitively)
+ * and are not shadowed by a page under the base path.
+ *
+ * @param keys - The keys of the actions, see {@link readActionKeys}
+ * @param opts.basePath - The normalized base path of the API routes
+ * @param opts.pages - The pages of the project, see {@link findPageRoutes}
+ * @param opts.pagesDir - Path of the pages directory used in the messages, e.g. `src/pages`
+ * @returns One message per problem, empty when the keys are valid
+ */
+export function validateActionKeys(
+    keys: ActionKey[],
+    opts: { basePath: string; pages: PageRoute[]; pagesDir: string },
+): string[] {
+    const { basePath, pages, pagesDir } = opts
+    const basePathSegments = basePath.split('/').filter(Boolean)
+    const diagnostics = new Set<string>()
+    const routes = new Map<string, ActionKey>()
+
+    for (const key of keys) {
+        const name = key.route.at(-1) ?? ''
+        if (!URL_SAFE_KEY.test(name)) {
+            diagnostics.add(
+                `${key.location} "${name}" is not URL-safe, use letters, numbers, "-", "_", "." or "~"`,
+            )
+        }
+        if (key.group) {
+            continue
+        }
+
+        const routePath = `${basePath}/${key.route.join('/')}`
+        const existing = routes.get(routePath.toLowerCase())
+        if (existing) {
+            diagnostics.add(
+                `${key.location} ${routePath} has the same route as ${existing.location}`,
+            )
+        } else {
+            routes.set(routePath.toLowerCase(), key)
+        }
+
+        const segments = [...basePathSegments, ...key.route]
+        const page = pages.find((page) => matchesPage(page.route, segments))
+        if (page) {
+            diagnostics.add(
+                `${key.location} ${routePath} collides with the page ${pagesDir}/${page.file}`,
+            )
+        }
+    }
+
+    return [...diagnostics]
+}
+
+/**
+ * Whether the page handles the route, pages take precedence over the `[...slug]` route of the actions
+ */
+function matchesPage(pageRoute: string[], segments: string[]) {
+    return (
+        pageRoute.length === segments.length &&
+        pageRoute.every(
+            (part, index) =>
+                part === segments[index] || /^\[(?!\.\.\.)[^\]]+\]$/.test(part),
+        )
+    )
+}
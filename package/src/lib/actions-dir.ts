@@ -0,0 +1,88 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { glob } from 'tinyglobby'
+import type { ActionMethod } from '../actions.js'
+import { type ActionKey, readDefaultExportMethod } from './action-keys.js'
+
+const ACTION_FILE_EXTENSIONS = ['.ts', '.js', '.mts', '.mjs']
+
+/**
+ * Whether a file of the actions directory is an action, e.g. `billing/createInvoice.ts`.
+ * Type declarations, tests and files or folders starting with `_` (shared helpers) are skipped.
+ *
+ * @param file - Path of the file relative to the actions directory
+ */
+export function isActionFile(file: string) {
+    const segments = file.split(/[\\/]/)
+    const name = segments.at(-1) ?? ''
+    return (
+        ACTION_FILE_EXTENSIONS.some((ext) => name.endsWith(ext)) &&
+        !segments.some((segment) => segment.startsWith('_')) &&
+        !/\.d\.[mc]?ts$/.test(name) &&
+        !/\.(test|spec)\.[^.]+$/.test(name)
+    )
+}
+
+/**
+ * Route segments of an action file, e.g. `billing/createInvoice.ts` -> `['billing', 'createInvoice']`
+ *
+ * @param file - Path of the file relative to the actions directory
+ */
+export function getActionRoute(file: string) {
+    return file.replace(/\.[^./\\]+$/, '').split(/[\\/]/)
+}
+
+/**
+ * Finds the action files of the actions directory, sorted so the generated code is stable
+ *
+ * @param dir - Absolute path of the actions directory
+ * @returns Paths relative to `dir`, with `/` separators
+ */
+export async function findActionFiles(dir: string) {
+    const files = await glob('**/*', { cwd: dir, onlyFiles: true })
+    return files.filter(isActionFile).sort()
+}
+
+/**
+ * Reads the method of the default export of each action file, see {@link readDefaultExportMethod}
+ *
+ * @param dir - Absolute path of the actions directory
+ * @param files - Action files relative to the actions directory, see {@link findActionFiles}
+ */
+export async function readActionFileMethods(dir: string, files: string[]) {
+    const methods: Record<string, ActionMethod | undefined> = {}
+    for (const file of files) {
+        const source = await fs
+            .readFile(path.join(dir, file), 'utf-8')
+            .catch(() => '')
+        methods[file] = readDefaultExportMethod(source)
+    }
+    return methods
+}
+
+/**
+ * Keys of the actions of the actions directory, folders are groups
+ *
+ * @param files - Action files relative to the actions directory, see {@link findActionFiles}
+ * @param dir - Path of the actions directory used in the locations, e.g. `src/actions`
+ * @param methods - Method of each file, see {@link readActionFileMethods}
+ */
+export function getActionDirKeys(
+    files: string[],
+    dir: string,
+    methods: Record<string, ActionMethod | undefined> = {},
+): ActionKey[] {
+    return files.flatMap((file) => {
+        const route = getActionRoute(file)
+        const folders = route.slice(0, -1).map((_, index) => ({
+            route: route.slice(0, index + 1),
+            location: `${dir}/${route.slice(0, index + 1).join('/')}`,
+            group: true,
+        }))
+        const method = methods[file]
+        return [
+            ...folders,
+            { route, location: `${dir}/${file}`, ...(method && { method }) },
+        ]
+    })
+}
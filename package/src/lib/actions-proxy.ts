@@ -0,0 +1,345 @@
+import * as devalue from 'devalue'
+import type { ClientRequestOptions, ClientResponse } from 'hono/client'
+import {
+    type ActionError,
+    type ActionErrorPayload,
+    createUnknownError,
+    createValidationError,
+    toHonoActionError,
+} from '../error.js'
+import { type FormValues, formValuesToObject } from './form-data.js'
+import {
+    type ActionSerialization,
+    isDevalue,
+    type RAW_DATA,
+    SERIALIZATION_HEADER,
+} from './serialization.js'
+import {
+    isZodSchema,
+    type StandardSchemaV1,
+    validateSchema,
+} from './standard-schema.js'
+
+type ClientEndpoint = (
+    args?: any,
+    options?: ClientRequestOptions,
+) => Promise<ClientResponse<any, any, any>>
+
+/**
+ * The `$post` or `$get` function of a node of the hono client, `never` for groups
+ */
+type NodeEndpoint<TNode> = TNode extends {
+    $post: infer F extends ClientEndpoint
+}
+    ? F
+    : TNode extends { $get: infer F extends ClientEndpoint }
+      ? F
+      : never
+
+/**
+ * Input of the proxy for the args of the hono client, form actions take a `FormData`
+ */
+type ProxyInput<TArgs> = TArgs extends { json: infer TInput }
+    ? TInput
+    : TArgs extends { form: any }
+      ? FormData
+      : TArgs extends { query: infer TInput }
+        ? TInput
+        : never
+
+type NonEmptyInput<TInput> = TInput extends object
+    ? [keyof TInput] extends [never]
+        ? never
+        : TInput
+    : TInput
+
+// the input of an action is a union with `{}` (the input without a schema), keep it only when there is no other
+type WithoutEmptyInput<TInput> = [NonEmptyInput<TInput>] extends [never]
+    ? TInput
+    : NonEmptyInput<TInput>
+
+type ProxyArgs<F extends ClientEndpoint> = WithoutEmptyInput<
+    ProxyInput<NonNullable<Parameters<F>[0]>>
+> extends infer TInput
+    ? {} extends TInput
+        ? [input?: TInput, options?: ActionCallOptions]
+        : [input: TInput, options?: ActionCallOptions]
+    : never
+
+type ResponseBody<TResponse> = TResponse extends ClientResponse<
+    infer TBody,
+    any,
+    any
+>
+    ? TBody
+    : never
+
+type EndpointBody<F extends ClientEndpoint> = ResponseBody<
+    Awaited<ReturnType<F>>
+>
+
+type SuccessBody<F extends ClientEndpoint> = Extract<
+    EndpointBody<F>,
+    { error: null }
+>
+
+/**
+ * `data` of a successful call, as returned by the handler with devalue and as parsed from JSON otherwise
+ */
+export type ActionData<
+    F extends ClientEndpoint,
+    TSerialization extends ActionSerialization = 'json',
+> = TSerialization extends 'devalue'
+    ? SuccessBody<F> extends { readonly [RAW_DATA]: infer TData }
+        ? TData
+        : SuccessBody<F>['data']
+    : SuccessBody<F>['data']
+
+/**
+ * `error` of a failed call, discriminated by its `code`
+ */
+export type ActionCallError<F extends ClientEndpoint> =
+    | Exclude<EndpointBody<F>, { error: null }>['error']
+    // responses that are not sent by an action, e.g. a proxy error page
+    | Extract<ActionError, { code: 'UNKNOWN_ERROR' }>
+
+/**
+ * Result of `.safe()`
+ */
+export type SafeActionResult<
+    F extends ClientEndpoint,
+    TSerialization extends ActionSerialization = 'json',
+> =
+    | { data: ActionData<F, TSerialization>; error: null }
+    | { data: null; error: ActionCallError<F> }
+
+export interface ActionCaller<
+    F extends ClientEndpoint,
+    TSerialization extends ActionSerialization = 'json',
+> {
+    /**
+     * Calls the action, returns its `data` or throws a `HonoActionError`
+     */
+    (...args: ProxyArgs<F>): Promise<ActionData<F, TSerialization>>
+    /**
+     * Calls the action, returns `{ data, error }` instead of throwing on action errors
+     */
+    safe(...args: ProxyArgs<F>): Promise<SafeActionResult<F, TSerialization>>
+}
+
+/**
+ * Actions of a hono client as functions, see {@link createActionsProxy}
+ */
+export type ActionsProxy<
+    TClient,
+    TSerialization extends ActionSerialization = 'json',
+> = {
+    [K in keyof TClient as K extends `$${string}` ? never : K]: [
+        NodeEndpoint<TClient[K]>,
+    ] extends [never]
+        ? ActionsProxy<TClient[K], TSerialization>
+        : ActionCaller<NodeEndpoint<TClient[K]>, TSerialization>
+}
+
+export type ActionCallOptions = ClientRequestOptions & {
+    /**
+     * Schema the input is validated with before it is sent, invalid input fails with an `INPUT_VALIDATION_ERROR` without a request.
+     * `false` skips the `schemas` of the proxy for this call.
+     */
+    validate?: StandardSchemaV1 | false
+}
+
+export interface ActionsProxyOptions<
+    TSerialization extends ActionSerialization,
+> {
+    /**
+     * Input schemas keyed like the actions (e.g. `import * as schemas from '@gnosticdev/hono-actions/schemas'`),
+     * every call of an action with a schema is validated before it is sent. Bundles all the schemas.
+     */
+    schemas?: object
+    /**
+     * Routes of the GET actions relative to the client, e.g. `['search', 'billing/listInvoices']`, their input is sent as the query string.
+     * The other actions are called with POST. The generated `createActions` passes the GET actions of the router.
+     */
+    getActions?: readonly string[]
+    /**
+     * `devalue` sends the JSON input and receives the `data` with devalue, so `Date`, `Map`, `Set` or `BigInt` values round-trip.
+     * Form input and the query string of GET actions are not affected.
+     *
+     * @default 'json'
+     */
+    serialization?: TSerialization
+}
+
+/**
+ * Wraps a hono client so actions are called like functions, e.g. `await actions.billing.createInvoice(input)`.
+ *
+ * Calls resolve with the `data` of the action and throw a `HonoActionError` with the code, status and issue of the error.
+ * `.safe()` resolves with `{ data, error }` instead. Form actions take a `FormData`.
+ *
+ * @param client - The node of the hono client at the base path, e.g. `honoClient.api`
+ * @param options.getActions - Routes of the GET actions, see {@link ActionsProxyOptions}
+ * @param options.serialization - `json` (default) or `devalue`, see {@link ActionsProxyOptions}
+ */
+export function createActionsProxy<
+    TClient extends object,
+    TSerialization extends ActionSerialization = 'json',
+>(
+    client: TClient,
+    options: ActionsProxyOptions<TSerialization> = {},
+): ActionsProxy<TClient, TSerialization> {
+    return createNode(
+        {
+            client,
+            serialization: options.serialization ?? 'json',
+            schemas: options.schemas,
+            getActions: new Set(options.getActions),
+        },
+        [],
+    ) as ActionsProxy<TClient, TSerialization>
+}
+
+interface ProxyContext {
+    client: any
+    serialization: ActionSerialization
+    schemas: object | undefined
+    getActions: ReadonlySet<string>
+}
+
+function createNode(proxy: ProxyContext, path: string[]): unknown {
+    const call = async (input?: unknown, options?: ActionCallOptions) => {
+        const { data, error } = await callAction(proxy, path, input, options)
+        if (error) {
+            throw toHonoActionError(error)
+        }
+        return data
+    }
+    const safe = async (input?: unknown, options?: ActionCallOptions) => {
+        const { data, error } = await callAction(proxy, path, input, options)
+        return error ? { data: null, error } : { data, error: null }
+    }
+
+    return new Proxy(call, {
+        get(_target, key) {
+            // not thenable, `await actions.billing` must not call an action
+            if (typeof key !== 'string' || key === 'then') {
+                return undefined
+            }
+            if (key === 'safe') {
+                return safe
+            }
+            return createNode(proxy, [...path, key])
+        },
+    })
+}
+
+async function callAction(
+    { client, serialization, schemas, getActions }: ProxyContext,
+    path: string[],
+    input: unknown,
+    callOptions: ActionCallOptions | undefined,
+): Promise<{ data: unknown; error: ActionErrorPayload | null }> {
+    const { validate, ...options } = callOptions ?? {}
+    const isGet = getActions.has(path.join('/'))
+    const schema =
+        validate === false ? undefined : (validate ?? findSchema(schemas, path))
+    if (schema) {
+        const error = await validateInput(schema, input, isGet)
+        if (error) {
+            return { data: null, error }
+        }
+    }
+
+    const endpoint = path.reduce((node, key) => node[key], client)
+    // `header` of the args, `headers` of the options would replace the ones of the client
+    const header =
+        serialization === 'devalue'
+            ? { [SERIALIZATION_HEADER]: 'devalue' }
+            : undefined
+
+    let res: Response
+    if (isGet) {
+        res = await endpoint.$get({ query: input ?? {}, header }, options)
+    } else if (input instanceof FormData) {
+        res = await endpoint.$post(
+            { form: formDataToRecord(input), header },
+            options,
+        )
+    } else {
+        res = await endpoint.$post(
+            { json: input ?? {}, header },
+            serialization === 'devalue'
+                ? {
+                      ...options,
+                      // the client sends `json` with JSON.stringify, the body of `init` replaces it
+                      init: {
+                          ...options.init,
+                          body: devalue.stringify(input ?? {}),
+                      },
+                  }
+                : options,
+        )
+    }
+
+    if (!isJson(res)) {
+        return { data: null, error: createUnknownError(res) }
+    }
+    const { data, error } = isDevalue(res.headers)
+        ? devalue.parse(await res.text())
+        : await res.json()
+    return { data, error: error ?? null }
+}
+
+function isJson(res: Response) {
+    return res.headers.get('Content-Type')?.includes('application/json')
+}
+
+/**
+ * Form values like the server parses them, repeated keys are collected into arrays
+ */
+function formDataToRecord(formData: FormData) {
+    const record: FormValues = {}
+    formData.forEach((value, key) => {
+        const current = record[key]
+        record[key] = current === undefined ? value : [current, value].flat()
+    })
+    return record
+}
+
+function findSchema(schemas: object | undefined, path: string[]) {
+    const schema = path.reduce<unknown>(
+        (node, key) =>
+            node && typeof node === 'object'
+                ? (node as Record<string, unknown>)[key]
+                : undefined,
+        schemas,
+    )
+    return schema && typeof schema === 'object' && '~standard' in schema
+        ? (schema as StandardSchemaV1)
+        : undefined
+}
+
+/**
+ * Validates the input like the action does, form and query values are coerced first
+ *
+ * @returns The validation error, `undefined` when the input is valid
+ */
+async function validateInput(
+    schema: StandardSchemaV1,
+    input: unknown,
+    isQuery: boolean,
+) {
+    const coerceSchema = isZodSchema(schema) ? schema : undefined
+    const value =
+        input instanceof FormData
+            ? formValuesToObject(formDataToRecord(input), coerceSchema)
+            : isQuery
+              ? formValuesToObject(
+                    (input ?? {}) as Record<string, string | string[]>,
+                    coerceSchema,
+                    'query',
+                )
+              : (input ?? {})
+    const result = await validateSchema(schema, value)
+    return result.success ? undefined : createValidationError(result.issues)
+}
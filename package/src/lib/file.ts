@@ -0,0 +1,84 @@
+import { z } from 'astro/zod'
+
+export interface FileSchemaOptions {
+    /**
+     * Maximum file size in bytes
+     */
+    maxSize?: number
+    /**
+     * Allowed file types, same format as the `accept` attribute of `<input type="file">`:
+     * MIME types (`image/png`), wildcards (`image/*`) or extensions (`.csv`)
+     */
+    accept?: string | string[]
+}
+
+/**
+ * Zod schema for a file field of a form action (`input: 'form'`).
+ *
+ * Issues name the offending field, so they can be shown next to the input.
+ *
+ * @example
+ * ```ts
+ * defineHonoAction({
+ *     input: 'form',
+ *     schema: z.object({
+ *         avatar: fileSchema({ maxSize: 1024 * 1024, accept: 'image/*' }),
+ *         import: fileSchema({ accept: ['.csv', 'text/csv'] }).optional(),
+ *     }),
+ *     handler: async ({ avatar }) => ({ size: avatar.size }),
+ * })
+ * ```
+ */
+export function fileSchema({ maxSize, accept }: FileSchemaOptions = {}) {
+    const acceptList = typeof accept === 'string' ? accept.split(',') : accept
+    const accepted = acceptList?.map((type) => type.trim().toLowerCase())
+
+    return z.custom<File>().superRefine((value, ctx) => {
+        const field = ctx.path.join('.') || 'file'
+
+        if (!(value instanceof File)) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: `${field} must be a file`,
+            })
+            return
+        }
+
+        if (maxSize !== undefined && value.size > maxSize) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: `${field} must be at most ${formatBytes(maxSize)}, got ${formatBytes(value.size)}`,
+                params: { maxSize, size: value.size },
+            })
+        }
+
+        if (accepted && !accepted.some((type) => isAccepted(value, type))) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: `${field} must be of type ${accepted.join(', ')}, got ${value.type || 'unknown'}`,
+                params: { accept: accepted, type: value.type },
+            })
+        }
+    })
+}
+
+function isAccepted(file: File, type: string) {
+    if (type.startsWith('.')) {
+        return file.name.toLowerCase().endsWith(type)
+    }
+    if (type.endsWith('/*')) {
+        return file.type.toLowerCase().startsWith(type.slice(0, -1))
+    }
+    return file.type.toLowerCase() === type
+}
+
+function formatBytes(bytes: number) {
+    const units = ['B', 'KB', 'MB', 'GB']
+    let size = bytes
+    let unit = 0
+    while (size >= 1024 && unit < units.length - 1) {
+        size /= 1024
+        unit++
+    }
+    return `${Number(size.toFixed(1))} ${units[unit]}`
+}
@@ -0,0 +1,133 @@
+import type { AstroCookies } from 'astro'
+import type { Context, MiddlewareHandler } from 'hono'
+import { generateCookie } from 'hono/cookie'
+import type { ActionErrorPayload } from '../error.js'
+
+/**
+ * Query parameter marking a request as a plain HTML form submission, see {@link formActions}
+ */
+export const FORM_ACTION_PARAM = '_form'
+
+/**
+ * Cookie holding the result of the last form submission until the page reads it
+ */
+export const FORM_ACTION_COOKIE = 'hono-actions-form'
+
+// browsers drop cookies over 4096 bytes (name and attributes included)
+const MAX_COOKIE_VALUE_LENGTH = 3800
+
+/**
+ * Result of a form submission, read on the page with {@link getFormActionResult}
+ */
+export type FormActionResult<TData = unknown> =
+    | { action: string; data: TData; error: null }
+    | { action: string; data: null; error: ActionErrorPayload }
+
+/**
+ * Whether the request was posted by a form to `formAction(...)`
+ */
+export function isFormActionRequest(c: Context) {
+    return (
+        c.req.method === 'POST' && c.req.query(FORM_ACTION_PARAM) !== undefined
+    )
+}
+
+/**
+ * Router middleware for forms that work without JavaScript, e.g. `<form method="post" action={formAction('signup')}>`.
+ * The action reads the form data (actions with `input: 'json'` reject it), then the response is replaced by a redirect back to the page
+ * (the referrer, `/` for other origins) with the result in a short-lived cookie.
+ *
+ * @param basePath - The base path of the router, removed from the `action` of the result
+ */
+export function formActions(basePath = ''): MiddlewareHandler {
+    return async (c, next) => {
+        await next()
+        if (
+            !isFormActionRequest(c) ||
+            !c.res.headers.get('Content-Type')?.includes('application/json')
+        ) {
+            return
+        }
+
+        const { data, error } = await c.res.json()
+        const action = c.req.path.slice(basePath.length).replace(/^\//, '')
+        let value = JSON.stringify({ action, data, error })
+        if (encodeURIComponent(value).length > MAX_COOKIE_VALUE_LENGTH) {
+            console.warn(
+                `The result of the form action ${action} is too large for a cookie, its data is dropped`,
+            )
+            value = JSON.stringify({ action, data: null, error })
+        }
+
+        // cookies set by the action (e.g. the session of a login form) are kept on the redirect
+        const headers = new Headers({ Location: getRedirectLocation(c) })
+        for (const cookie of c.res.headers.getSetCookie()) {
+            headers.append('Set-Cookie', cookie)
+        }
+        headers.append(
+            'Set-Cookie',
+            generateCookie(FORM_ACTION_COOKIE, value, {
+                path: '/',
+                httpOnly: true,
+                sameSite: 'Lax',
+                secure: new URL(c.req.url).protocol === 'https:',
+                maxAge: 60,
+            }),
+        )
+
+        // reset the response first, its other headers would be merged into the redirect
+        c.res = undefined
+        c.res = new Response(null, { status: 303, headers })
+    }
+}
+
+/**
+ * The page that posted the form, only on the same origin so the action can't be used as an open redirect
+ */
+function getRedirectLocation(c: Context) {
+    const referer = c.req.header('Referer')
+    if (!referer) {
+        return '/'
+    }
+    const url = new URL(c.req.url)
+    const refererUrl = URL.canParse(referer) ? new URL(referer) : undefined
+    return refererUrl?.origin === url.origin
+        ? `${refererUrl.pathname}${refererUrl.search}`
+        : '/'
+}
+
+/**
+ * Reads the result of the form action that redirected to this page, once: the cookie is deleted when it is read.
+ *
+ * @example
+ * ```astro
+ * ---
+ * const result = getFormActionResult<{ id: string }>(Astro, 'signup')
+ * const fieldErrors = result?.error?.code === 'INPUT_VALIDATION_ERROR' ? result.error.fieldErrors : {}
+ * ---
+ * ```
+ *
+ * @param ctx - `Astro`, or the `APIContext` in endpoints and middleware (e.g. to copy the result to `Astro.locals`)
+ * @param action - Only read the result of this action, e.g. `signup` or `billing/createInvoice`
+ */
+export function getFormActionResult<TData = unknown>(
+    ctx: { cookies: AstroCookies },
+    action?: string,
+): FormActionResult<TData> | undefined {
+    const value = ctx.cookies.get(FORM_ACTION_COOKIE)?.value
+    if (!value) {
+        return undefined
+    }
+    let result: FormActionResult<TData>
+    try {
+        result = JSON.parse(value)
+    } catch {
+        ctx.cookies.delete(FORM_ACTION_COOKIE, { path: '/' })
+        return undefined
+    }
+    if (action !== undefined && result.action !== action) {
+        return undefined
+    }
+    ctx.cookies.delete(FORM_ACTION_COOKIE, { path: '/' })
+    return result
+}
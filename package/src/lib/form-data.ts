@@ -0,0 +1,219 @@
+import type { z } from 'astro/zod'
+
+/**
+ * A single value parsed from `multipart/form-data` or `application/x-www-form-urlencoded` bodies
+ */
+type FormEntry = string | File
+
+/**
+ * Form values as parsed by the Hono `form` validator, repeated keys are collected into arrays
+ */
+export type FormValues = Record<string, FormEntry | FormEntry[]>
+
+type PlainObject = Record<string, unknown>
+
+type IsPlainObject<T> = T extends Blob | Date | readonly unknown[]
+    ? false
+    : T extends object
+      ? true
+      : false
+
+type UnionToIntersection<U> = (U extends any ? (x: U) => void : never) extends (
+    x: infer I,
+) => void
+    ? I
+    : never
+
+/**
+ * The value a client sends for a single form field
+ */
+type FormFieldValue<T> = T extends Blob
+    ? Blob
+    : T extends readonly (infer TItem)[]
+      ? FormFieldValue<TItem> | FormFieldValue<TItem>[]
+      : string
+
+type PrefixKeys<TPrefix extends string, T> = {
+    [K in keyof T as `${TPrefix}.${Extract<K, string>}`]: T[K]
+}
+
+type NestedFormInput<T> = UnionToIntersection<
+    {
+        [K in keyof T & string]-?: IsPlainObject<NonNullable<T[K]>> extends true
+            ? undefined extends T[K]
+                ? Partial<PrefixKeys<K, FormInput<NonNullable<T[K]>>>>
+                : PrefixKeys<K, FormInput<NonNullable<T[K]>>>
+            : never
+    }[keyof T & string]
+>
+
+/**
+ * Maps the input type of a schema to the form fields a client sends.
+ *
+ * Nested objects are flattened into dot separated names, e.g. `{ address: { city: string } }` -> `{ 'address.city': string }`
+ */
+export type FormInput<T> = {
+    [K in keyof T as IsPlainObject<NonNullable<T[K]>> extends true
+        ? never
+        : K]: FormFieldValue<T[K]>
+} & NestedFormInput<T>
+
+/**
+ * Maps the input type of a schema to the query parameters a client sends, same rules as {@link FormInput}
+ */
+export type QueryInput<T> = FormInput<T>
+
+const TRUE_VALUES = ['true', 'on', '1']
+
+// names that would write to the prototype of the nested objects instead of to the objects
+const UNSAFE_SEGMENTS = ['__proto__', 'constructor', 'prototype']
+
+/**
+ * Converts parsed form values into the shape expected by the schema.
+ *
+ * - nested names (`address.city`) become nested objects
+ * - repeated keys (or keys ending with `[]`) become arrays
+ * - strings are coerced to numbers, booleans and dates when the (zod) schema expects them
+ * - names with a `__proto__`, `constructor` or `prototype` segment are ignored
+ *
+ * @param values - The parsed form (or query) values
+ * @param schema - The action schema, used to coerce the values (optional)
+ * @param target - Where the values come from, missing booleans are only `false` (unchecked checkboxes) in forms
+ */
+export function formValuesToObject(
+    values: FormValues | Record<string, string | string[]>,
+    schema?: z.ZodTypeAny,
+    target: 'form' | 'query' = 'form',
+) {
+    const obj: PlainObject = {}
+
+    for (const [name, value] of Object.entries(values)) {
+        const path = (name.endsWith('[]') ? name.slice(0, -2) : name).split('.')
+        if (path.some((segment) => UNSAFE_SEGMENTS.includes(segment))) {
+            continue
+        }
+        const key = path.pop()!
+        let parent = obj
+        for (const segment of path) {
+            const next = Object.hasOwn(parent, segment)
+                ? parent[segment]
+                : undefined
+            parent[segment] = isPlainObject(next) ? next : {}
+            parent = parent[segment] as PlainObject
+        }
+        parent[key] =
+            name.endsWith('[]') && !Array.isArray(value) ? [value] : value
+    }
+
+    return coerce(obj, schema, target) as PlainObject
+}
+
+function coerce(
+    value: unknown,
+    schema: z.ZodTypeAny | undefined,
+    target: 'form' | 'query',
+): unknown {
+    if (!schema) {
+        return value
+    }
+    const inner = unwrap(schema)
+
+    switch (inner._def.typeName) {
+        case 'ZodObject': {
+            if (!isPlainObject(value)) {
+                return value
+            }
+            const shape: Record<string, z.ZodTypeAny> = inner._def.shape()
+            const obj: PlainObject = { ...value }
+            for (const [key, fieldSchema] of Object.entries(shape)) {
+                const fieldValue = coerce(value[key], fieldSchema, target)
+                if (fieldValue === undefined) {
+                    delete obj[key]
+                } else {
+                    obj[key] = fieldValue
+                }
+            }
+            return obj
+        }
+        case 'ZodArray': {
+            if (value === undefined) {
+                return value
+            }
+            const items = Array.isArray(value) ? value : [value]
+            return items.map((item) => coerce(item, inner._def.type, target))
+        }
+        case 'ZodBoolean':
+            // unchecked checkboxes are not sent at all, optional and default booleans keep their own value
+            if (value === undefined) {
+                return target === 'form' && !schema.isOptional()
+                    ? false
+                    : undefined
+            }
+            return typeof value === 'string'
+                ? TRUE_VALUES.includes(value.toLowerCase())
+                : value
+        case 'ZodNumber':
+            return typeof value === 'string' && value !== ''
+                ? Number(value)
+                : emptyToUndefined(value)
+        case 'ZodBigInt':
+            return typeof value === 'string' && /^-?\d+$/.test(value)
+                ? BigInt(value)
+                : emptyToUndefined(value)
+        case 'ZodDate':
+            return typeof value === 'string' && value !== ''
+                ? new Date(value)
+                : emptyToUndefined(value)
+        case 'ZodString':
+        case 'ZodEnum':
+        case 'ZodNativeEnum':
+        case 'ZodLiteral':
+            return value
+        default:
+            return emptyToUndefined(value)
+    }
+}
+
+/**
+ * Unwraps optional, nullable, default and refined schemas to the schema that describes the value
+ */
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+    const def = schema._def
+    switch (def.typeName) {
+        case 'ZodOptional':
+        case 'ZodNullable':
+        case 'ZodDefault':
+        case 'ZodCatch':
+        case 'ZodReadonly':
+            return unwrap(def.innerType)
+        case 'ZodEffects':
+            return unwrap(def.schema)
+        case 'ZodBranded':
+            return unwrap(def.type)
+        case 'ZodPipeline':
+            return unwrap(def.in)
+        case 'ZodLazy':
+            return unwrap(def.getter())
+        default:
+            return schema
+    }
+}
+
+/**
+ * Empty inputs are sent as `''`, or as a nameless empty file for `<input type="file">`
+ */
+function emptyToUndefined(value: unknown) {
+    if (value instanceof File && value.size === 0 && value.name === '') {
+        return undefined
+    }
+    return value === '' ? undefined : value
+}
+
+function isPlainObject(value: unknown): value is PlainObject {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        !Array.isArray(value) &&
+        !(value instanceof Blob)
+    )
+}
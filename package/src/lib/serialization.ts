@@ -0,0 +1,23 @@
+/**
+ * How the JSON input and the `data` of an action are serialized.
+ * `devalue` keeps `Date`, `Map`, `Set`, `BigInt`, `URL`, ... (like Astro actions), `json` sends plain JSON.
+ */
+export type ActionSerialization = 'json' | 'devalue'
+
+/**
+ * Request header asking an action for `devalue`: the JSON body is read with devalue and the `data` is sent with it.
+ * The response repeats the header when its body is serialized with devalue, error responses are always plain JSON.
+ */
+export const SERIALIZATION_HEADER = 'X-Hono-Actions-Serialization'
+
+/**
+ * Type of the `data` of a success response before JSON serialization, only used by the types of the client
+ */
+export declare const RAW_DATA: unique symbol
+
+/**
+ * Whether the request or response is serialized with devalue
+ */
+export function isDevalue(headers: Headers) {
+    return headers.get(SERIALIZATION_HEADER) === 'devalue'
+}
@@ -0,0 +1,90 @@
+import type { ClientResponse } from 'hono/client'
+import {
+    createUnknownError,
+    type HonoActionError,
+    toHonoActionError,
+} from '../error.js'
+
+/**
+ * Event type of a streaming action response, from the hono client
+ */
+export type ActionStreamEvent<TResponse> = TResponse extends ClientResponse<
+    infer TEvent,
+    any,
+    'sse'
+>
+    ? TEvent
+    : never
+
+/**
+ * Reads the events of a streaming action (see `defineHonoStreamAction`).
+ * Error responses and `error` events are thrown as a {@link HonoActionError}, breaking out of the loop cancels the request.
+ *
+ * @example
+ * ```ts
+ * for await (const event of readActionStream(honoClient.api.importUsers.$post({ json: { url } }))) {
+ *     console.log(event.progress)
+ * }
+ * ```
+ *
+ * @param response - The response of the hono client, or its promise
+ */
+export async function* readActionStream<TResponse extends Response>(
+    response: TResponse | Promise<TResponse>,
+): AsyncGenerator<ActionStreamEvent<TResponse>, void, undefined> {
+    const res = await response
+    if (!res.ok) {
+        // responses that are not sent by an action have no JSON error, e.g. the text 404 of a missing route
+        if (!res.headers.get('Content-Type')?.includes('application/json')) {
+            throw toHonoActionError(createUnknownError(res))
+        }
+        const body = await res.json()
+        throw toHonoActionError(body.error)
+    }
+    if (!res.body) {
+        return
+    }
+
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader()
+    let buffer = ''
+    try {
+        while (true) {
+            const { done, value } = await reader.read()
+            if (done) {
+                return
+            }
+            buffer += value
+            // messages are separated by a blank line, the last one may be incomplete
+            const messages = buffer.split(/\r?\n\r?\n/)
+            buffer = messages.pop() ?? ''
+            for (const message of messages) {
+                const { event, data } = parseMessage(message)
+                if (event === 'error') {
+                    throw toHonoActionError(JSON.parse(data))
+                }
+                if (data) {
+                    yield JSON.parse(data)
+                }
+            }
+        }
+    } finally {
+        await reader.cancel()
+    }
+}
+
+function parseMessage(message: string) {
+    let event = 'message'
+    const data: string[] = []
+    for (const line of message.split(/\r?\n/)) {
+        const separator = line.indexOf(':')
+        const field = separator === -1 ? line : line.slice(0, separator)
+        const value =
+            separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '')
+        if (field === 'event') {
+            event = value
+        } else if (field === 'data') {
+            data.push(value)
+        }
+    }
+    return { event, data: data.join('\n') }
+}
@@ -0,0 +1,62 @@
+import type { StandardSchemaV1 } from '@standard-schema/spec'
+import type { z } from 'astro/zod'
+import type { ActionIssue } from '../error.js'
+
+export type { StandardSchemaV1 }
+
+/**
+ * Input type of a Standard Schema (Zod, Valibot, ArkType, ...)
+ */
+export type InferSchemaInput<TSchema extends StandardSchemaV1> =
+    StandardSchemaV1.InferInput<TSchema>
+
+/**
+ * Output type of a Standard Schema (Zod, Valibot, ArkType, ...)
+ */
+export type InferSchemaOutput<TSchema extends StandardSchemaV1> =
+    StandardSchemaV1.InferOutput<TSchema>
+
+type ValidationResult<TOutput> =
+    | { success: true; data: TOutput }
+    | { success: false; issues: ActionIssue[] }
+
+/**
+ * Validates a value with any Standard Schema, the issues are normalized to {@link ActionIssue}
+ *
+ * @param schema - The schema to validate with
+ * @param value - The value to validate
+ */
+export async function validateSchema<TSchema extends StandardSchemaV1>(
+    schema: TSchema,
+    value: unknown,
+): Promise<ValidationResult<InferSchemaOutput<TSchema>>> {
+    const result = await schema['~standard'].validate(value)
+    if (result.issues) {
+        return { success: false, issues: result.issues.map(toActionIssue) }
+    }
+    return { success: true, data: result.value as InferSchemaOutput<TSchema> }
+}
+
+/**
+ * Zod schemas are coerced from form values based on their definition
+ */
+export function isZodSchema(schema: unknown): schema is z.ZodTypeAny {
+    return (
+        typeof schema === 'object' &&
+        schema !== null &&
+        '_def' in schema &&
+        (schema as z.ZodTypeAny)['~standard']?.vendor === 'zod'
+    )
+}
+
+function toActionIssue(issue: StandardSchemaV1.Issue): ActionIssue {
+    const path = (issue.path ?? []).map((segment) => {
+        const key = typeof segment === 'object' ? segment.key : segment
+        return typeof key === 'symbol' ? String(key) : key
+    })
+    // zod issues carry a code, keep it for clients that already rely on it
+    const code = (issue as { code?: unknown }).code
+    return typeof code === 'string'
+        ? { code, message: issue.message, path }
+        : { message: issue.message, path }
+}
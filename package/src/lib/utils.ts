@@ -3,3 +3,31 @@
  * @see https://docs.astro.build/en/guides/routing/#reserved-routes
  */
 export const reservedRoutes = ['_astro', '_actions', '_server_islands']
+
+/**
+ * Normalizes the base path of the API routes: a leading slash, no trailing or repeated slashes, e.g. `api//v1/` -> `/api/v1`
+ */
+export function normalizeBasePath(basePath: string) {
+    return `/${basePath.trim().split('/').filter(Boolean).join('/')}`
+}
+
+/**
+ * Checks a normalized base path, the actions are served from `${basePath}/[...slug]`
+ *
+ * @returns The reason the base path can't be used, `undefined` when it is valid
+ */
+export function validateBasePath(basePath: string) {
+    const segments = basePath.split('/').filter(Boolean)
+    const [first] = segments
+    if (first === undefined) {
+        return 'The base path cannot be the root, the actions would handle every route. Pick one like /api.'
+    }
+    if (reservedRoutes.includes(first)) {
+        return `Base path ${basePath} is reserved by Astro; pick another (e.g. /api2).`
+    }
+    const invalid = segments.find((segment) => !/^[\w.~-]+$/.test(segment))
+    if (invalid) {
+        return `Base path ${basePath} is not URL-safe ("${invalid}"), use letters, numbers, "-", "_", "." or "~".`
+    }
+    return undefined
+}
@@ -4,13 +4,14 @@ import packageJson from './package.json'
 export default defineConfig({
     entry: {
         actions: 'src/actions.ts', // Main entry for action definitions
+        'client-runtime': 'src/client-runtime.ts', // Imported by the generated client, browser-safe
         index: 'src/index.ts', // Integration entry (Node.js only)
     },
     format: ['esm'],
     dts: true,
     clean: true,
     bundle: true, // Bundle all dependencies except externals
-    splitting: false,
+    splitting: true, // shared modules (e.g. HonoActionError) are one instance across entries
     removeNodeProtocol: false,
     sourcemap: false,
     target: 'es2022',
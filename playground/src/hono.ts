@@ -36,6 +36,19 @@ const noSchemaAction = defineHonoAction({
     },
 })
 
+const getGreeting = defineHonoAction({
+    method: 'GET',
+    schema: z.object({
+        name: z.string(),
+        times: z.number().default(1),
+    }),
+    handler: async (input) => {
+        return {
+            message: `Hi ${input.name}! `.repeat(input.times).trim(),
+        }
+    },
+})
+
 const appSolo = new Hono<HonoEnv>()
 appSolo.use('*', async (c, next) => {
     console.log('appSolo env', c.env)
@@ -54,4 +67,5 @@ export const honoActions = {
     anotherAction,
     noSchemaAction,
     getRoute,
+    getGreeting,
 }